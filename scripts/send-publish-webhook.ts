@@ -0,0 +1,47 @@
+/**
+ * Stand-in for the scheduling service: sends a signed publish notification to the webhook
+ *
+ * Usage: bun scripts/send-publish-webhook.ts <typefullyId> [published|failed] [error]
+ *
+ * Reads TYPEFULLY_WEBHOOK_SECRET, and WEBHOOK_URL to target a server other than
+ * the local dev server.
+ */
+
+import {
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+	signWebhookPayload,
+} from '../src/utils/webhook-signature';
+
+const DEFAULT_WEBHOOK_URL = 'http://localhost:3500/api/webhooks/typefully';
+
+const [typefullyId, status = 'published', error] = process.argv.slice(2);
+const secret = process.env.TYPEFULLY_WEBHOOK_SECRET;
+
+if (!typefullyId || (status !== 'published' && status !== 'failed')) {
+	console.error('Usage: bun scripts/send-publish-webhook.ts <typefullyId> [published|failed] [error]');
+	process.exit(1);
+}
+if (!secret) {
+	console.error('Set TYPEFULLY_WEBHOOK_SECRET to the secret the server uses');
+	process.exit(1);
+}
+
+const body = JSON.stringify({
+	typefullyId,
+	status,
+	...(status === 'published' ? { publishedAt: new Date().toISOString() } : { error }),
+});
+const timestamp = String(Math.floor(Date.now() / 1000));
+
+const response = await fetch(process.env.WEBHOOK_URL || DEFAULT_WEBHOOK_URL, {
+	method: 'POST',
+	headers: {
+		'Content-Type': 'application/json',
+		[WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+		[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+	},
+	body,
+});
+
+console.log(response.status, await response.text());
@@ -5,12 +5,20 @@ import { z } from "zod";
 import {
 	getCampaign,
 	updateCampaignStatus,
-	saveCampaign,
+	updateCampaign,
+	setCheckpoint,
+	clearCheckpoints,
+	isStepCompleted,
 } from "../../utils/kv-store";
+import { appendCampaignEvent } from "../../utils/event-store";
+import { GenerationQueueFullError, runGeneration } from "../../utils/generation-limiter";
+import { getWorkspace } from "../../utils/workspace-store";
 import {
+	type BrandSettings,
 	type Campaign,
+	type CopywriterOutput,
+	type CopywriterRequest,
 	type ResearchResults,
-	type CampaignContent,
 	type Post,
 	type Thread,
 	CopywriterRequestSchema,
@@ -42,6 +50,12 @@ const TwitterThreadSchema = z.object({
 type LinkedInPostsData = z.infer<typeof LinkedInPostSchema>;
 type TwitterThreadsData = z.infer<typeof TwitterThreadSchema>;
 
+// Existing content to rewrite, with optional guidance such as "shorter, less salesy"
+interface Revision {
+	current: string;
+	guidance?: string;
+}
+
 const DEFAULT_LINKEDIN_POSTS_COUNT = 3;
 const DEFAULT_TWITTER_THREADS_COUNT = 2;
 const DEFAULT_TWEETS_PER_THREAD = 3;
@@ -53,7 +67,13 @@ const agent = createAgent("copywriter", {
 	},
 	handler: async (ctx, input) => {
 		try {
-			const { campaignId, topic: inputTopic, description, research: inputResearch } = input;
+			const {
+				campaignId,
+				topic: inputTopic,
+				description,
+				research: inputResearch,
+				extend = false,
+			} = input;
 
 			ctx.logger.info(
 				"Copywriter: Processing campaign %s on topic: %s",
@@ -73,15 +93,21 @@ const agent = createAgent("copywriter", {
 				return { error: `Campaign not found with ID: ${campaignId}`, status: "error" as const };
 			}
 
+			if (input.regenerate) {
+				return await regenerateItem(ctx, campaign, input.regenerate);
+			}
+
 			// Update campaign status to writing
 			await updateCampaignStatus(ctx, campaign.id, "writing");
 
 			const topic = campaign.topic || inputTopic || "No topic provided";
 			let research: ResearchResults;
 
-			// Determine if we have research data or simple topic/description
+			// Prefer research passed in or stored by the researcher, then fall back to topic/description
 			if (inputResearch) {
 				research = inputResearch;
+			} else if (campaign.research) {
+				research = campaign.research;
 			} else if (inputTopic) {
 				const desc = description || campaign.description || "";
 				research = {
@@ -108,51 +134,125 @@ const agent = createAgent("copywriter", {
 			// Generate content
 			ctx.logger.info("Generating content for campaign: %s", campaign.id);
 
-			const linkedInPosts = await generateLinkedInPosts(
-				research,
-				topic,
-				DEFAULT_LINKEDIN_POSTS_COUNT,
-				ctx,
-			);
+			const brand = (await getWorkspace(ctx, campaign.workspaceId))?.brand;
 
-			const twitterThreads = await generateTwitterThreads(
-				research,
-				topic,
-				DEFAULT_TWITTER_THREADS_COUNT,
-				DEFAULT_TWEETS_PER_THREAD,
-				ctx,
-			);
+			// When extending, new content is appended and existing drafts are left alone
+			const existingLinkedInPosts = extend ? (campaign.content?.linkedInPosts ?? []) : [];
 
-			const campaignContent: CampaignContent = {
-				linkedInPosts,
-				twitterThreads,
-			};
+			if (!extend && campaign.content?.linkedInPosts.length && isStepCompleted(campaign, "linkedin")) {
+				// Reuse LinkedIn posts from an earlier run
+				ctx.logger.info("LinkedIn posts already generated for campaign: %s", campaign.id);
+			} else {
+				const newPosts = await generateLinkedInPosts(
+					research,
+					topic,
+					DEFAULT_LINKEDIN_POSTS_COUNT,
+					ctx,
+					existingLinkedInPosts.map((post) => post.content),
+					brand,
+				);
+
+				// Only the posts written here change, so edits and reviews saved meanwhile are kept
+				let firstIndex = 0;
+				const saved = await updateCampaign(ctx, campaign.id, (latest) => {
+					latest.content ??= { linkedInPosts: [], twitterThreads: [] };
+					firstIndex = extend ? latest.content.linkedInPosts.length : 0;
+					latest.content.linkedInPosts = extend
+						? [...latest.content.linkedInPosts, ...newPosts]
+						: newPosts;
+					setCheckpoint(latest, "linkedin", "completed");
+					if (!extend) {
+						// New posts need new drafts
+						clearCheckpoints(latest, "draft:linkedin-post-");
+					}
+				});
+
+				if (!saved) {
+					return { error: "Failed to save campaign with generated LinkedIn posts", status: "error" as const };
+				}
+
+				for (const [i, post] of newPosts.entries()) {
+					await appendCampaignEvent(ctx, campaign.id, {
+						type: "post_generated",
+						platform: "linkedin",
+						index: firstIndex + i,
+						content: post.content,
+					});
+				}
+			}
 
-			// Build updated campaign
-			const updatedCampaign: Campaign = {
-				id: campaign.id,
-				topic: campaign.topic,
-				description: campaign.description,
-				publishDate: campaign.publishDate,
-				status: campaign.status || "writing",
-				createdAt: campaign.createdAt,
-				updatedAt: new Date().toISOString(),
-				research: campaign.research,
-				content: campaignContent,
-			};
+			const existingTwitterThreads = extend ? (campaign.content?.twitterThreads ?? []) : [];
 
-			const saveSuccess = await saveCampaign(ctx, updatedCampaign);
+			if (!extend && campaign.content?.twitterThreads.length && isStepCompleted(campaign, "twitter")) {
+				// Reuse Twitter threads from an earlier run
+				ctx.logger.info("Twitter threads already generated for campaign: %s", campaign.id);
+			} else {
+				const newThreads = await generateTwitterThreads(
+					research,
+					topic,
+					DEFAULT_TWITTER_THREADS_COUNT,
+					DEFAULT_TWEETS_PER_THREAD,
+					ctx,
+					existingTwitterThreads.map((thread) =>
+						thread.tweets.map((tweet) => tweet.content).join("\n"),
+					),
+					brand,
+				);
+
+				let firstIndex = 0;
+				const saved = await updateCampaign(ctx, campaign.id, (latest) => {
+					latest.content ??= { linkedInPosts: [], twitterThreads: [] };
+					firstIndex = extend ? latest.content.twitterThreads.length : 0;
+					latest.content.twitterThreads = extend
+						? [...latest.content.twitterThreads, ...newThreads]
+						: newThreads;
+					setCheckpoint(latest, "twitter", "completed");
+					if (!extend) {
+						// New threads need new drafts
+						clearCheckpoints(latest, "draft:twitter-thread-");
+					}
+				});
+
+				if (!saved) {
+					return { error: "Failed to save campaign with generated Twitter threads", status: "error" as const };
+				}
+
+				for (const [i, thread] of newThreads.entries()) {
+					await appendCampaignEvent(ctx, campaign.id, {
+						type: "post_generated",
+						platform: "twitter",
+						index: firstIndex + i,
+						content: thread.tweets.map((tweet) => tweet.content).join("\n\n"),
+					});
+				}
+			}
+
+			// Store the research alongside the generated content
+			const updatedCampaign = await updateCampaign(ctx, campaign.id, (latest) => {
+				latest.status = "writing";
+				latest.research = latest.research || research;
+			});
 
-			if (!saveSuccess) {
+			if (!updatedCampaign) {
 				return { error: "Failed to save campaign with generated content", status: "error" as const };
 			}
 
+			if (input.schedule === false) {
+				// Put the campaign back where it was, e.g. a cloned campaign still being planned
+				await updateCampaignStatus(ctx, campaign.id, campaign.status);
+				return {
+					campaignId: campaign.id,
+					message: "Content generated; scheduling was skipped",
+					status: "success" as const,
+				};
+			}
+
 			// Hand off to the scheduler agent
 			ctx.logger.info("Handing off to scheduler for campaign: %s", campaign.id);
 
 			const schedulerResult = await schedulerAgent.run({
 				campaignId: updatedCampaign.id,
-				content: campaignContent,
+				content: updatedCampaign.content ?? { linkedInPosts: [], twitterThreads: [] },
 				publishDate: updatedCampaign.publishDate,
 			});
 
@@ -172,6 +272,180 @@ const agent = createAgent("copywriter", {
 	},
 });
 
+/**
+ * Prompt section listing content the campaign already has, so new content does not repeat it
+ */
+function formatExistingContent(label: string, existing: string[]): string {
+	if (existing.length === 0) {
+		return "";
+	}
+
+	return `
+			This campaign already has the ${label} below. Cover different angles and do not repeat them:
+			${existing.map((content, i) => `--- ${i + 1} ---\n${content}`).join("\n")}
+			`;
+}
+
+/**
+ * Prompt section with the workspace's brand settings, so content matches the team's voice
+ */
+function formatBrandGuidelines(brand: BrandSettings | undefined): string {
+	if (!brand) {
+		return "";
+	}
+
+	const lines = [
+		brand.name && `Brand: ${brand.name}`,
+		brand.voice && `Voice and tone: ${brand.voice}`,
+		brand.audience && `Audience: ${brand.audience}`,
+		brand.guidelines && `Guidelines: ${brand.guidelines}`,
+		brand.hashtags?.length && `Prefer these hashtags where they fit: ${brand.hashtags.join(", ")}`,
+	].filter(Boolean);
+
+	if (lines.length === 0) {
+		return "";
+	}
+
+	return `
+			Follow the brand settings below. They take precedence over the general guidelines:
+			${lines.join("\n")}
+			`;
+}
+
+/**
+ * Prompt section with the post being rewritten and how to change it
+ */
+function formatRevisionRequest(revision: Revision | undefined): string {
+	if (!revision) {
+		return "";
+	}
+
+	const guidance = revision.guidance ? ` Change it as follows: ${revision.guidance}` : "";
+
+	return `
+			Rewrite the content below rather than writing something new.${guidance}
+			${revision.current}
+			`;
+}
+
+/**
+ * Rewrite one LinkedIn post or Twitter thread, keeping the rest of the campaign
+ *
+ * Reuses the campaign's research. If the post or thread already has a live
+ * Typefully draft, the scheduler swaps it for a draft of the new content on
+ * the same date; every other draft is left alone.
+ */
+async function regenerateItem(
+	ctx: AgentContext<any, unknown, AppState>,
+	campaign: Campaign,
+	{ postId, guidance }: NonNullable<CopywriterRequest["regenerate"]>,
+): Promise<CopywriterOutput> {
+	const [, platform, indexText] = postId.match(/^(linkedin|twitter)-(?:post|thread)-(\d+)$/) ?? [];
+	const index = Number(indexText);
+
+	if (!campaign.research) {
+		return { error: `Campaign ${campaign.id} has no research to write from`, status: "error" as const };
+	}
+
+	const brand = (await getWorkspace(ctx, campaign.workspaceId))?.brand;
+	const post = platform === "linkedin" ? campaign.content?.linkedInPosts[index] : undefined;
+	const thread = platform === "twitter" ? campaign.content?.twitterThreads[index] : undefined;
+
+	ctx.logger.info("Regenerating %s for campaign %s", postId, campaign.id);
+
+	let content: string;
+	if (post) {
+		const others = campaign.content!.linkedInPosts.filter((_, i) => i !== index);
+		const [newPost] = await generateLinkedInPosts(
+			campaign.research,
+			campaign.topic,
+			1,
+			ctx,
+			others.map((other) => other.content),
+			brand,
+			{ current: post.content, guidance },
+		);
+		if (!newPost) {
+			return { error: `No replacement was generated for ${postId}`, status: "error" as const };
+		}
+
+		const saved = await updateCampaign(ctx, campaign.id, (latest) => {
+			const existing = latest.content?.linkedInPosts[index];
+			if (existing) {
+				Object.assign(existing, { content: newPost.content, media: newPost.media });
+				// New content needs a fresh review
+				delete existing.review;
+			}
+		});
+		if (!saved) {
+			return { error: `Failed to save the regenerated ${postId}`, status: "error" as const };
+		}
+		content = newPost.content;
+	} else if (thread) {
+		const others = campaign.content!.twitterThreads.filter((_, i) => i !== index);
+		const [newThread] = await generateTwitterThreads(
+			campaign.research,
+			campaign.topic,
+			1,
+			thread.tweets.length || DEFAULT_TWEETS_PER_THREAD,
+			ctx,
+			others.map((other) => other.tweets.map((tweet) => tweet.content).join("\n")),
+			brand,
+			{ current: thread.tweets.map((tweet) => tweet.content).join("\n"), guidance },
+		);
+		if (!newThread) {
+			return { error: `No replacement was generated for ${postId}`, status: "error" as const };
+		}
+
+		const saved = await updateCampaign(ctx, campaign.id, (latest) => {
+			const existing = latest.content?.twitterThreads[index];
+			if (existing) {
+				existing.tweets = newThread.tweets;
+				delete existing.review;
+			}
+		});
+		if (!saved) {
+			return { error: `Failed to save the regenerated ${postId}`, status: "error" as const };
+		}
+		content = newThread.tweets.map((tweet) => tweet.content).join("\n\n");
+	} else {
+		return { error: `Post ${postId} not found in campaign ${campaign.id}`, status: "error" as const };
+	}
+
+	await appendCampaignEvent(ctx, campaign.id, {
+		type: "post_generated",
+		platform: platform as "linkedin" | "twitter",
+		index,
+		content,
+	});
+
+	const hasLiveDraft = campaign.schedulingInfo?.scheduledPosts.some(
+		(scheduledPost) =>
+			scheduledPost.postId === postId &&
+			scheduledPost.typefullyId &&
+			(scheduledPost.status === "scheduled" || scheduledPost.status === "draft"),
+	);
+
+	if (!hasLiveDraft) {
+		return { campaignId: campaign.id, message: `Regenerated ${postId}`, status: "success" as const };
+	}
+
+	const updated = await getCampaign(ctx, campaign.id);
+	const schedulerResult = await schedulerAgent.run({
+		campaignId: campaign.id,
+		content: updated?.content ?? { linkedInPosts: [], twitterThreads: [] },
+		action: "replace",
+		postIds: [postId],
+	});
+
+	return {
+		campaignId: campaign.id,
+		message: `Regenerated ${postId} and replaced its Typefully draft`,
+		status: "success" as const,
+		schedulerResult,
+	};
+}
+
 /**
  * Generate LinkedIn posts based on research
  */
@@ -180,49 +454,57 @@ async function generateLinkedInPosts(
 	topic: string,
 	count: number,
 	ctx: AgentContext<any, unknown, AppState>,
+	existingPosts: string[] = [],
+	brand?: BrandSettings,
+	revision?: Revision,
 ): Promise<Post[]> {
 	try {
 		ctx.logger.debug("Generating %d LinkedIn posts", count);
 
-		const result = await generateText({
-			model: anthropic("claude-3-7-sonnet-20250219"),
-			output: Output.object({
-				schema: LinkedInPostSchema,
+		const result = await runGeneration(() =>
+			generateText({
+				model: anthropic("claude-3-7-sonnet-20250219"),
+				output: Output.object({
+					schema: LinkedInPostSchema,
+				}),
+				system:
+					"You are a professional LinkedIn content creator who specializes in creating engaging, viral posts that drive engagement and shares.",
+				prompt: `
+				Create ${count} unique LinkedIn posts based on the following research about "${topic}":
+
+				TITLE: ${research.title}
+
+				DESCRIPTION: ${research.description}
+
+				LONG FORM DESCRIPTION:
+				${research.longFormDescription}
+
+				KEY INSIGHTS:
+				${research.keyInsights.map((insight, i) => `${i + 1}. ${insight}`).join("\n")}
+
+				TAGS:
+				${research.tags.join(", ")}
+
+				Guidelines for LinkedIn posts:
+				1. Each post should be 1200-1500 characters (LinkedIn's optimal length)
+				2. Include relevant hashtags (3-5) at the end of each post
+				3. Focus on providing value and insights rather than being promotional
+				4. Use a professional yet conversational tone
+				5. Include a clear call-to-action
+				6. Each post should cover a different aspect of the topic
+				7. Use line breaks effectively for readability
+				8. Start with a hook to capture attention
+				${formatExistingContent("posts", existingPosts)}
+				${formatBrandGuidelines(brand)}
+				${formatRevisionRequest(revision)}
+
+				IMPORTANT: Try not to use latinate words where simple, anglo-saxon based words exist.
+				This helps with better understanding.
+
+				Format your response as an array of posts, each with content and relevant hashtags.
+				`,
 			}),
-			system:
-				"You are a professional LinkedIn content creator who specializes in creating engaging, viral posts that drive engagement and shares.",
-			prompt: `
-			Create ${count} unique LinkedIn posts based on the following research about "${topic}":
-
-			TITLE: ${research.title}
-
-			DESCRIPTION: ${research.description}
-
-			LONG FORM DESCRIPTION:
-			${research.longFormDescription}
-
-			KEY INSIGHTS:
-			${research.keyInsights.map((insight, i) => `${i + 1}. ${insight}`).join("\n")}
-
-			TAGS:
-			${research.tags.join(", ")}
-
-			Guidelines for LinkedIn posts:
-			1. Each post should be 1200-1500 characters (LinkedIn's optimal length)
-			2. Include relevant hashtags (3-5) at the end of each post
-			3. Focus on providing value and insights rather than being promotional
-			4. Use a professional yet conversational tone
-			5. Include a clear call-to-action
-			6. Each post should cover a different aspect of the topic
-			7. Use line breaks effectively for readability
-			8. Start with a hook to capture attention
-
-			IMPORTANT: Try not to use latinate words where simple, anglo-saxon based words exist.
-			This helps with better understanding.
-
-			Format your response as an array of posts, each with content and relevant hashtags.
-			`,
-		});
+		);
 
 		const linkedInPostsData: LinkedInPostsData = result.output;
 
@@ -240,6 +522,9 @@ async function generateLinkedInPosts(
 		});
 	} catch (error) {
 		ctx.logger.error("Error generating LinkedIn posts: %s", error);
+		// A rewrite replaces a post the user already has, so the generic fallback would be worse,
+		// and with the queue full the request should be retried rather than filled with it
+		if (revision || error instanceof GenerationQueueFullError) throw error;
 		return [
 			{
 				platform: "linkedin" as const,
@@ -259,48 +544,56 @@ async function generateTwitterThreads(
 	threadCount: number,
 	tweetsPerThread: number,
 	ctx: AgentContext<any, unknown, AppState>,
+	existingThreads: string[] = [],
+	brand?: BrandSettings,
+	revision?: Revision,
 ): Promise<Thread[]> {
 	try {
 		ctx.logger.debug("Generating %d Twitter threads", threadCount);
 
-		const result = await generateText({
-			model: anthropic("claude-3-7-sonnet-20250219"),
-			output: Output.object({
-				schema: TwitterThreadSchema,
-			}),
-			system:
-				"You are a professional Twitter content creator who specializes in creating engaging, viral threads that drive engagement and shares.",
-			prompt: `
-			Create ${threadCount} unique Twitter threads, each with ${tweetsPerThread} tweets, based on the following research about "${topic}":
+		const result = await runGeneration(() =>
+			generateText({
+				model: anthropic("claude-3-7-sonnet-20250219"),
+				output: Output.object({
+					schema: TwitterThreadSchema,
+				}),
+				system:
+					"You are a professional Twitter content creator who specializes in creating engaging, viral threads that drive engagement and shares.",
+				prompt: `
+				Create ${threadCount} unique Twitter threads, each with ${tweetsPerThread} tweets, based on the following research about "${topic}":
 
-			TITLE: ${research.title}
+				TITLE: ${research.title}
 
-			DESCRIPTION: ${research.description}
+				DESCRIPTION: ${research.description}
 
-			LONG FORM DESCRIPTION:
-			${research.longFormDescription}
+				LONG FORM DESCRIPTION:
+				${research.longFormDescription}
 
-			KEY INSIGHTS:
-			${research.keyInsights.map((insight, i) => `${i + 1}. ${insight}`).join("\n")}
+				KEY INSIGHTS:
+				${research.keyInsights.map((insight, i) => `${i + 1}. ${insight}`).join("\n")}
 
-			TAGS:
-			${research.tags.join(", ")}
+				TAGS:
+				${research.tags.join(", ")}
 
-			Guidelines for Twitter threads:
-			1. Each tweet should be under 280 characters
-			2. The first tweet should have a strong hook to capture attention
-			3. Each thread should tell a cohesive story or explore a single aspect of the topic
-			4. Make each tweet able to stand on its own while contributing to the overall thread
-			5. Incorporate relevant hashtags but use them sparingly (1-2 per thread, not every tweet)
-			6. End with a call-to-action
-			7. Assume the tweets will be numbered automatically (don't include "1/5" type numbering)
+				Guidelines for Twitter threads:
+				1. Each tweet should be under 280 characters
+				2. The first tweet should have a strong hook to capture attention
+				3. Each thread should tell a cohesive story or explore a single aspect of the topic
+				4. Make each tweet able to stand on its own while contributing to the overall thread
+				5. Incorporate relevant hashtags but use them sparingly (1-2 per thread, not every tweet)
+				6. End with a call-to-action
+				7. Assume the tweets will be numbered automatically (don't include "1/5" type numbering)
+				${formatExistingContent("threads", existingThreads)}
+				${formatBrandGuidelines(brand)}
+				${formatRevisionRequest(revision)}
 
-			IMPORTANT: Try not to use latinate words where simple, anglo-saxon based words exist.
-			This helps with better understanding.
+				IMPORTANT: Try not to use latinate words where simple, anglo-saxon based words exist.
+				This helps with better understanding.
 
-			Format your response as an array of threads, each containing an array of tweets with their content.
-			`,
-		});
+				Format your response as an array of threads, each containing an array of tweets with their content.
+				`,
+			}),
+		);
 
 		const twitterThreadsData: TwitterThreadsData = result.output;
 
@@ -318,6 +611,7 @@ async function generateTwitterThreads(
 		});
 	} catch (error) {
 		ctx.logger.error("Error generating Twitter threads: %s", error);
+		if (revision || error instanceof GenerationQueueFullError) throw error;
 		return [
 			{
 				tweets: [
@@ -1,18 +1,37 @@
-import { createAgent } from '@agentuity/runtime';
+import { createAgent, type AgentContext, type AppState } from '@agentuity/runtime';
 import { generateText, Output } from 'ai';
-import { type ManagerRequest, ManagerRequestSchema, ManagerOutputSchema } from '../../types';
+import {
+  type CampaignResolution,
+  type ManagerOutput,
+  type ManagerRequest,
+  ManagerInputSchema,
+  ManagerOutputSchema,
+} from '../../types';
 import { groq } from '@ai-sdk/groq';
 import { z } from 'zod';
 import {
+  clearCheckpoints,
   createCampaign,
-  findCampaignsByTopic,
+  findSimilarCampaigns,
+  getCampaign,
+  type SimilarCampaign,
+  updateCampaign,
 } from '../../utils/kv-store';
 import { errorResponse } from '../../utils/response-utils';
+import { updateJob } from '../../utils/job-store';
+import { DEFAULT_WORKSPACE_ID } from '../../utils/workspace-store';
+import {
+  getNextPipelineStep,
+  runCampaignPipeline,
+  toCampaignHandoff,
+} from '../../utils/pipeline';
 import type { Campaign } from '../../types';
+import copywriterAgent from '../copywriter';
+import schedulerAgent from '../scheduler';
 
 const agent = createAgent('chat', {
   schema: {
-    input: ManagerRequestSchema,
+    input: ManagerInputSchema,
     output: ManagerOutputSchema,
   },
   handler: async (ctx, input) => {
@@ -27,21 +46,35 @@ const agent = createAgent('chat', {
       input.topic,
     );
 
+    const workspaceId = input.workspaceId ?? DEFAULT_WORKSPACE_ID;
+
+    // Act on an explicit choice about an existing campaign
+    const { resolution } = input;
+    if (resolution && resolution.action !== 'create_new') {
+      return resolveExistingCampaign(ctx, workspaceId, resolution);
+    }
+
     // Extract structured data if we only have a topic
     const request = await enrichRequestData(input, ctx);
 
-    // Check for existing campaigns with similar topics
-    const existingCampaigns = await findCampaignsByTopic(ctx, request.topic);
+    // Check for existing campaigns with similar topics, unless asked to create anyway
+    const similarCampaigns = resolution?.action === 'create_new'
+      ? []
+      : await findSimilarCampaigns(ctx, workspaceId, request.topic, request.description);
 
-    if (existingCampaigns.length > 0) {
+    if (similarCampaigns.length > 0) {
       ctx.logger.info(
-        'Found %d existing campaigns for topic: %s',
-        existingCampaigns.length,
+        'Found %d existing campaigns similar to topic: %s',
+        similarCampaigns.length,
         request.topic,
       );
+      const options = buildResolutionOptions(similarCampaigns.map((match) => match.campaign));
       return {
-        existingCampaigns: serializeCampaigns(existingCampaigns),
-        message: 'Found existing campaigns for this topic.',
+        existingCampaigns: serializeMatches(similarCampaigns),
+        options,
+        message: `Found existing campaigns similar to this topic. Send the request again with a "resolution" to choose:\n${options
+          .map((option) => `- ${option.description}`)
+          .join('\n')}`,
         status: 'existing_found',
       };
     }
@@ -57,6 +90,9 @@ const agent = createAgent('chat', {
         request.topic,
         description,
         publishDate,
+        request.domain || undefined,
+        workspaceId,
+        input.requireApproval,
       );
 
       if (!campaign?.id) {
@@ -67,6 +103,13 @@ const agent = createAgent('chat', {
         return errorResponse('Failed to create campaign');
       }
 
+      // Link the campaign to the background job so its progress can be polled
+      if (input.jobId) {
+        await updateJob(ctx, input.jobId, (job) => {
+          job.campaignId = campaign.id;
+        });
+      }
+
       // Get domain - ensure it's a string or null (not undefined) for JSON compatibility
       const source = request.domain || null;
 
@@ -79,14 +122,15 @@ const agent = createAgent('chat', {
         source,
       };
 
-      ctx.logger.info('Handing off to copywriter for campaign: %s', campaign.id);
+      ctx.logger.info('Handing off to researcher for campaign: %s', campaign.id);
 
-      // Return handoff information
-      return {
-        status: 'handoff',
-        message: 'Campaign created, handing off to copywriter',
-        campaign: payload,
-      };
+      const result = await runCampaignPipeline(payload);
+
+      if (result.status === 'error') {
+        ctx.logger.error('Pipeline failed for campaign %s: %s', campaign.id, result.error);
+      }
+
+      return result;
     } catch (error) {
       ctx.logger.error('Error creating campaign: %s', error);
       return errorResponse(
@@ -159,16 +203,146 @@ async function enrichRequestData(
 }
 
 /**
- * Convert campaign objects to serializable format
+ * List the resolutions a caller can choose when existing campaigns match
+ */
+function buildResolutionOptions(campaigns: Campaign[]) {
+  return [
+    {
+      action: 'create_new' as const,
+      description: 'create_new: create a new campaign anyway',
+    },
+    ...campaigns.flatMap((campaign) => [
+      {
+        action: 'reuse' as const,
+        campaignId: campaign.id,
+        description: `reuse ${campaign.id}: keep "${campaign.topic}" and finish any incomplete steps`,
+      },
+      {
+        action: 'regenerate' as const,
+        campaignId: campaign.id,
+        description: `regenerate ${campaign.id}: rewrite and reschedule the content for "${campaign.topic}"`,
+      },
+      {
+        action: 'extend' as const,
+        campaignId: campaign.id,
+        description: `extend ${campaign.id}: add and schedule more posts for "${campaign.topic}"`,
+      },
+    ]),
+  ];
+}
+
+/**
+ * Reuse, regenerate or extend an existing campaign
+ */
+async function resolveExistingCampaign(
+  ctx: AgentContext<any, unknown, AppState>,
+  workspaceId: string,
+  resolution: CampaignResolution,
+): Promise<ManagerOutput> {
+  if (!resolution.campaignId) {
+    return errorResponse(`A campaignId is required to ${resolution.action} a campaign`);
+  }
+
+  const campaign = await getCampaign(ctx, resolution.campaignId);
+
+  // Campaigns of other workspaces are reported as missing
+  if (!campaign || campaign.workspaceId !== workspaceId) {
+    return errorResponse(`Campaign not found with ID: ${resolution.campaignId}`);
+  }
+
+  if (campaign.deletedAt) {
+    return errorResponse(`Campaign ${campaign.id} is in the trash; restore it first`);
+  }
+
+  ctx.logger.info('Resolving campaign %s with action: %s', campaign.id, resolution.action);
+
+  switch (resolution.action) {
+    case 'reuse': {
+      const finished = campaign.status === 'active' || campaign.status === 'completed';
+      if (finished && !getNextPipelineStep(campaign)) {
+        return {
+          status: 'success',
+          message: `Reusing existing campaign ${campaign.id}`,
+          campaign: toCampaignHandoff(campaign),
+          research: campaign.research,
+        };
+      }
+      return runCampaignPipeline(toCampaignHandoff(campaign));
+    }
+
+    case 'regenerate': {
+      // Fresh content gets fresh drafts, so the old drafts must not stay live in Typefully
+      const hasLiveDrafts = campaign.schedulingInfo?.scheduledPosts.some(
+        (scheduledPost) =>
+          scheduledPost.typefullyId &&
+          (scheduledPost.status === 'scheduled' || scheduledPost.status === 'draft'),
+      );
+      if (hasLiveDrafts) {
+        const schedulerResult = await schedulerAgent.run({
+          campaignId: campaign.id,
+          content: campaign.content ?? { linkedInPosts: [], twitterThreads: [] },
+          action: 'cancel',
+        });
+        if (schedulerResult.status === 'error' || schedulerResult.scheduledPosts > 0) {
+          return errorResponse(
+            `Could not cancel the existing drafts of campaign ${campaign.id}; regenerate again to retry`,
+          );
+        }
+      }
+
+      // Keep the research, but generate and schedule fresh content
+      const updated = await updateCampaign(ctx, campaign.id, (latest) => {
+        clearCheckpoints(latest, 'linkedin');
+        clearCheckpoints(latest, 'twitter');
+      });
+      if (!updated) {
+        return errorResponse(`Failed to reset content for campaign ${campaign.id}`);
+      }
+      return runCampaignPipeline(toCampaignHandoff(updated));
+    }
+
+    case 'extend': {
+      const copywriterResult = await copywriterAgent.run({
+        campaignId: campaign.id,
+        topic: campaign.topic,
+        description: campaign.description,
+        publishDate: campaign.publishDate,
+        research: campaign.research,
+        extend: true,
+      });
+
+      if (copywriterResult.status === 'error') {
+        return errorResponse(`Failed to extend campaign: ${copywriterResult.error}`);
+      }
+
+      return {
+        status: 'success',
+        message: `Added more content to campaign ${campaign.id}`,
+        campaign: toCampaignHandoff(campaign),
+        research: campaign.research,
+        copywriterResult,
+        schedulerResult: copywriterResult.schedulerResult,
+      };
+    }
+
+    default:
+      return errorResponse(`Unsupported resolution: ${resolution.action}`);
+  }
+}
+
+/**
+ * Convert similar campaigns to serializable format
  */
-function serializeCampaigns(campaigns: Campaign[]) {
-  return campaigns.map((campaign) => ({
+function serializeMatches(matches: SimilarCampaign[]) {
+  return matches.map(({ campaign, similarity, reason }) => ({
     id: campaign.id,
     topic: campaign.topic,
     description: campaign.description || null,
     status: campaign.status,
     createdAt: campaign.createdAt,
     updatedAt: campaign.updatedAt,
+    similarity,
+    reason,
   }));
 }
 
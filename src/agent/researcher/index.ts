@@ -0,0 +1,203 @@
+import { createAgent, type AgentContext, type AppState } from "@agentuity/runtime";
+import { generateText, Output } from "ai";
+import { anthropic } from "@ai-sdk/anthropic";
+import { z } from "zod";
+import {
+	getCampaign,
+	updateCampaignStatus,
+	updateCampaign,
+	setCheckpoint,
+	isStepCompleted,
+} from "../../utils/kv-store";
+import { isHttpUrl, type PageContent } from "../../utils/html-utils";
+import { fetchSourcePage } from "../../utils/source-fetch";
+import {
+	type ResearchResults,
+	ResearcherRequestSchema,
+	ResearcherOutputSchema,
+} from "../../types";
+import copywriterAgent from "../copywriter";
+
+const ResearchAnalysisSchema = z.object({
+	title: z.string(),
+	description: z.string(),
+	longFormDescription: z.string(),
+	tags: z.array(z.string()),
+	keyInsights: z.array(z.string()),
+});
+
+type ResearchAnalysis = z.infer<typeof ResearchAnalysisSchema>;
+
+const MAX_SOURCE_CHARS = 20000;
+const DEFAULT_KEY_INSIGHTS_COUNT = 5;
+
+const agent = createAgent("researcher", {
+	schema: {
+		input: ResearcherRequestSchema,
+		output: ResearcherOutputSchema,
+	},
+	handler: async (ctx, input) => {
+		try {
+			const { campaignId } = input;
+
+			ctx.logger.info("Researcher: Processing campaign %s", campaignId);
+
+			// Validate campaign ID
+			if (!campaignId?.trim()) {
+				return { error: "Missing required field: campaignId", status: "error" as const };
+			}
+
+			// Get the campaign from KV store
+			const campaign = await getCampaign(ctx, campaignId);
+
+			if (!campaign) {
+				return { error: `Campaign not found with ID: ${campaignId}`, status: "error" as const };
+			}
+
+			// Update campaign status to researching
+			await updateCampaignStatus(ctx, campaign.id, "researching");
+
+			const topic = campaign.topic || input.topic;
+			const description = campaign.description || input.description || "";
+			const source = input.source || campaign.source;
+
+			let research: ResearchResults;
+
+			if (campaign.research && isStepCompleted(campaign, "research")) {
+				// Reuse research from an earlier run
+				ctx.logger.info("Research already completed for campaign: %s", campaign.id);
+				research = campaign.research;
+			} else {
+				// Gather source material from a URL or from pasted text
+				let page: PageContent | null = null;
+				const sources: string[] = [];
+
+				if (source?.trim()) {
+					if (isHttpUrl(source)) {
+						page = await fetchSourcePage(source.trim(), ctx);
+						sources.push(source.trim());
+					} else {
+						page = {
+							title: "",
+							description: "",
+							keywords: [],
+							text: source.trim(),
+						};
+					}
+				}
+
+				const analysis = await analyzeSource(topic, description, page, ctx);
+
+				research = {
+					...analysis,
+					sources,
+				};
+
+				// Store the research on the campaign
+				const researchedCampaign = await updateCampaign(ctx, campaign.id, (latest) => {
+					latest.research = research;
+					setCheckpoint(latest, "research", "completed");
+				});
+
+				if (!researchedCampaign) {
+					return { error: "Failed to save campaign with research results", status: "error" as const };
+				}
+			}
+
+			// Hand off to the copywriter agent
+			ctx.logger.info("Handing off to copywriter for campaign: %s", campaign.id);
+
+			const copywriterResult = await copywriterAgent.run({
+				campaignId: campaign.id,
+				topic,
+				description: campaign.description,
+				publishDate: input.publishDate || campaign.publishDate,
+				research,
+			});
+
+			return {
+				campaignId: campaign.id,
+				message: "Research completed and handed off to copywriter",
+				research,
+				status: "success" as const,
+				copywriterResult,
+			};
+		} catch (error) {
+			ctx.logger.error("Error in Researcher Agent: %s", error);
+			return {
+				error: error instanceof Error ? error.message : "An unexpected error occurred",
+				status: "error" as const,
+			};
+		}
+	},
+});
+
+/**
+ * Summarize the source material into structured research
+ */
+async function analyzeSource(
+	topic: string,
+	description: string,
+	page: PageContent | null,
+	ctx: AgentContext<any, unknown, AppState>,
+): Promise<ResearchAnalysis> {
+	const sourceText = page?.text.slice(0, MAX_SOURCE_CHARS) || "";
+
+	try {
+		ctx.logger.debug("Analyzing %d characters of source material", sourceText.length);
+
+		const result = await generateText({
+			model: anthropic("claude-3-7-sonnet-20250219"),
+			output: Output.object({
+				schema: ResearchAnalysisSchema,
+			}),
+			system:
+				"You are a thorough content marketing researcher who turns source material into clear, accurate briefs for copywriters.",
+			prompt: `
+			Research the topic "${topic}" for a social media campaign.
+
+			CAMPAIGN DESCRIPTION: ${description || "None provided"}
+
+			SOURCE TITLE: ${page?.title || "None"}
+
+			SOURCE DESCRIPTION: ${page?.description || "None"}
+
+			SOURCE TEXT:
+			${sourceText || "No source material was provided. Use what you know about the topic."}
+
+			Produce:
+			1. A short, clear title for the campaign
+			2. A one or two sentence description
+			3. A long form description (3-5 paragraphs) covering the main points
+			4. 3-8 tags without the # symbol
+			5. ${DEFAULT_KEY_INSIGHTS_COUNT} key insights, each a single concrete statement
+
+			Only state facts that are backed by the source text when source text is given.
+			`,
+		});
+
+		return result.output;
+	} catch (error) {
+		ctx.logger.error("Error analyzing research source: %s", error);
+
+		// Fall back to what we could pull straight from the source
+		const sentences = sourceText
+			.split(/(?<=[.!?])\s+/)
+			.map((sentence) => sentence.trim())
+			.filter((sentence) => sentence.length > 20);
+
+		return {
+			title: page?.title || topic,
+			description: page?.description || description || sentences[0] || topic,
+			longFormDescription: sourceText.slice(0, 2000) || description || topic,
+			tags: page?.keywords.length
+				? page.keywords
+				: [topic.replace(/\s+/g, "").toLowerCase()],
+			keyInsights: sentences.length
+				? sentences.slice(0, DEFAULT_KEY_INSIGHTS_COUNT)
+				: [description || `Key points about ${topic}`],
+		};
+	}
+}
+
+export default agent;
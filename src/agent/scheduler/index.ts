@@ -1,14 +1,22 @@
 import {
 	getCampaign,
 	updateCampaignStatus,
-	saveCampaign,
+	updateCampaign,
+	setCheckpoint,
+	isStepCompleted,
 } from "../../utils/kv-store";
+import { appendCampaignEvent } from "../../utils/event-store";
 import { getValidDate, incrementDateByDays } from "../../utils/date-utils";
+import { canSchedule, countAwaitingApproval, findReviewItem } from "../../utils/review";
+import { parsePostId } from "../../utils/content-edits";
+import { indexTypefullyDraft } from "../../utils/publish-outcomes";
+import { getTypefullyApiKey } from "../../utils/workspace-store";
 import {
 	type Campaign,
 	type Post,
 	type Thread,
 	type SchedulingInfo,
+	type SchedulerOutput,
 	SchedulerRequestSchema,
 	SchedulerOutputSchema,
 } from "../../types";
@@ -41,18 +49,34 @@ const agent = createAgent('scheduler', {
 				return { error: `Campaign not found with ID: ${campaignId}`, status: "error" as const };
 			}
 
-			// Check if we have content to schedule
-			if (!campaign.content) {
-				return { error: "Campaign has no content to schedule", status: "error" as const };
-			}
-
-			// Verify API key is available
-			const apiKey = process.env.TYPEFULLY_API_KEY;
+			// Verify API key is available, preferring the workspace's own key
+			const apiKey = await getTypefullyApiKey(ctx, campaign.workspaceId);
 
 			ctx.logger.debug("Scheduler: API Key present: %s", !!apiKey);
 
 			if (!apiKey) {
-				return { error: "Missing TYPEFULLY_API_KEY in environment variables", status: "error" as const };
+				return {
+					error: "Missing Typefully API key: set one in the workspace settings or TYPEFULLY_API_KEY",
+					status: "error" as const,
+				};
+			}
+
+			if (input.action === "cancel") {
+				return await cancelScheduledDrafts(campaign, ctx, apiKey, input.postIds);
+			}
+
+			if (input.action === "replace") {
+				return await replaceDrafts(campaign, input.postIds ?? [], ctx, apiKey);
+			}
+
+			// Single items, such as one approved after the campaign was scheduled, leave its status alone
+			if (input.postIds) {
+				return await scheduleItems(campaign, input.postIds, ctx, apiKey);
+			}
+
+			// Check if we have content to schedule
+			if (!campaign.content) {
+				return { error: "Campaign has no content to schedule", status: "error" as const };
 			}
 
 			// Update campaign status to scheduling
@@ -76,12 +100,11 @@ const agent = createAgent('scheduler', {
 				apiKey,
 			);
 
-			// Update campaign with scheduling info
-			campaign.schedulingInfo = schedulingInfo;
-			campaign.updatedAt = new Date().toISOString();
-
-			// Save the campaign with scheduling info
-			const saveResult = await saveCampaign(ctx, campaign);
+			// Each draft was saved as it was made, so reviews, edits and publish outcomes
+			// saved meanwhile are kept; campaigns with nothing to schedule still get scheduling info
+			const saveResult = await updateCampaign(ctx, campaignId, (latest) => {
+				latest.schedulingInfo ??= { scheduledPosts: [] };
+			});
 			if (!saveResult) {
 				return { error: "Failed to save campaign with scheduling info", status: "error" as const };
 			}
@@ -89,11 +112,16 @@ const agent = createAgent('scheduler', {
 			// Update campaign status to active
 			await updateCampaignStatus(ctx, campaignId, "active");
 
+			const awaitingApproval = countAwaitingApproval(campaign);
+
 			// Return the scheduling results
 			return {
 				campaignId,
 				scheduledPosts: schedulingInfo.scheduledPosts.length,
-				message: `Successfully scheduled ${schedulingInfo.scheduledPosts.length} posts for campaign`,
+				message:
+					awaitingApproval > 0
+						? `Scheduled ${schedulingInfo.scheduledPosts.length} posts for campaign; ${awaitingApproval} await approval`
+						: `Successfully scheduled ${schedulingInfo.scheduledPosts.length} posts for campaign`,
 				status: "success" as const,
 			};
 		} catch (error) {
@@ -137,6 +165,7 @@ async function scheduleContent(
 		const linkedInResults = await scheduleLinkedInPosts(
 			content.linkedInPosts,
 			linkedInDates,
+			campaign,
 			ctx,
 			apiKey,
 		);
@@ -162,6 +191,7 @@ async function scheduleContent(
 		const twitterResults = await scheduleTwitterThreads(
 			content.twitterThreads,
 			twitterDates,
+			campaign,
 			ctx,
 			apiKey,
 		);
@@ -176,6 +206,7 @@ async function scheduleContent(
 async function scheduleLinkedInPosts(
 	posts: Post[],
 	scheduledDates: string[],
+	campaign: Campaign,
 	ctx: AgentContext<any, unknown, AppState>,
 	apiKey: string,
 ): Promise<SchedulingInfo["scheduledPosts"]> {
@@ -201,6 +232,20 @@ async function scheduleLinkedInPosts(
 				ctx.logger.warn("Using fallback date for LinkedIn post %d", i);
 			}
 
+			// Reuse the draft if an earlier run already created it
+			const postId = `linkedin-post-${i}`;
+			const completedDraft = getCompletedDraft(campaign, postId);
+			if (completedDraft) {
+				ctx.logger.info("LinkedIn post %d already scheduled as %s", i, completedDraft.typefullyId);
+				scheduledPosts.push(completedDraft);
+				continue;
+			}
+
+			if (!canSchedule(campaign, post)) {
+				ctx.logger.info("LinkedIn post %d is not approved for scheduling", i);
+				continue;
+			}
+
 			try {
 				// Ensure the post has content before proceeding
 				if (!post.content) {
@@ -218,25 +263,27 @@ async function scheduleLinkedInPosts(
 				);
 
 				// Add to the scheduled posts
-				scheduledPosts.push({
-					postId: `linkedin-post-${i}`,
+				const scheduledPost = {
+					postId,
 					typefullyId,
 					scheduledDate: postDate || getValidDate("tomorrow"),
-					status: "scheduled",
-				});
+					status: "scheduled" as const,
+				};
+				scheduledPosts.push(scheduledPost);
 
-				// Update the post with scheduling information
-				post.scheduledDate = postDate || getValidDate("tomorrow");
-				post.typefullyId = typefullyId;
+				await recordDraftCheckpoint(ctx, campaign.id, scheduledPost);
 			} catch (error) {
 				ctx.logger.error("Failed to schedule LinkedIn post: %s", error);
 
-				scheduledPosts.push({
-					postId: `linkedin-post-${i}`,
+				const failedPost = {
+					postId,
 					typefullyId: "",
 					scheduledDate: postDate || getValidDate("tomorrow"),
-					status: "failed",
-				});
+					status: "failed" as const,
+				};
+				scheduledPosts.push(failedPost);
+
+				await recordDraftCheckpoint(ctx, campaign.id, failedPost, String(error));
 			}
 		}
 	} catch (error) {
@@ -252,6 +299,7 @@ async function scheduleLinkedInPosts(
 async function scheduleTwitterThreads(
 	threads: Thread[],
 	scheduledDates: string[],
+	campaign: Campaign,
 	ctx: AgentContext<any, unknown, AppState>,
 	apiKey: string,
 ): Promise<SchedulingInfo["scheduledPosts"]> {
@@ -277,6 +325,20 @@ async function scheduleTwitterThreads(
 				ctx.logger.warn("Using fallback date for Twitter thread %d", i);
 			}
 
+			// Reuse the draft if an earlier run already created it
+			const postId = `twitter-thread-${i}`;
+			const completedDraft = getCompletedDraft(campaign, postId);
+			if (completedDraft) {
+				ctx.logger.info("Twitter thread %d already scheduled as %s", i, completedDraft.typefullyId);
+				scheduledPosts.push(completedDraft);
+				continue;
+			}
+
+			if (!canSchedule(campaign, thread)) {
+				ctx.logger.info("Twitter thread %d is not approved for scheduling", i);
+				continue;
+			}
+
 			try {
 				// Ensure the thread has tweets before proceeding
 				if (!thread.tweets?.length) {
@@ -284,14 +346,9 @@ async function scheduleTwitterThreads(
 					continue;
 				}
 
-				// Convert the thread to a string for the API with 4 consecutive newlines to split tweets
-				const threadContent = thread.tweets
-					.map((tweet) => tweet.content)
-					.join("\n\n\n\n");
-
 				// Call the Typefully API to create a draft and schedule it
 				const typefullyId = await createTypefullyDraft(
-					threadContent,
+					toThreadContent(thread),
 					"twitter",
 					apiKey,
 					ctx,
@@ -300,25 +357,27 @@ async function scheduleTwitterThreads(
 				);
 
 				// Add to the scheduled posts
-				scheduledPosts.push({
-					postId: `twitter-thread-${i}`,
+				const scheduledPost = {
+					postId,
 					typefullyId,
 					scheduledDate: postDate || getValidDate("tomorrow"),
-					status: "scheduled",
-				});
+					status: "scheduled" as const,
+				};
+				scheduledPosts.push(scheduledPost);
 
-				// Update the thread with scheduling information
-				thread.scheduledDate = postDate || getValidDate("tomorrow");
-				thread.typefullyId = typefullyId;
+				await recordDraftCheckpoint(ctx, campaign.id, scheduledPost);
 			} catch (error) {
 				ctx.logger.error("Failed to schedule Twitter thread: %s", error);
 
-				scheduledPosts.push({
-					postId: `twitter-thread-${i}`,
+				const failedPost = {
+					postId,
 					typefullyId: "",
 					scheduledDate: postDate || getValidDate("tomorrow"),
-					status: "failed",
-				});
+					status: "failed" as const,
+				};
+				scheduledPosts.push(failedPost);
+
+				await recordDraftCheckpoint(ctx, campaign.id, failedPost, String(error));
 			}
 		}
 	} catch (error) {
@@ -328,6 +387,297 @@ async function scheduleTwitterThreads(
 	return scheduledPosts;
 }
 
+/**
+ * Convert a thread to a string for the API, with 4 consecutive newlines to split tweets
+ */
+function toThreadContent(thread: Thread): string {
+	return thread.tweets.map((tweet) => tweet.content).join("\n\n\n\n");
+}
+
+/**
+ * Get the scheduled post for a draft that completed in an earlier run and is still live or published
+ */
+function getCompletedDraft(
+	campaign: Campaign,
+	postId: string,
+): SchedulingInfo["scheduledPosts"][number] | undefined {
+	if (!isStepCompleted(campaign, `draft:${postId}`)) {
+		return undefined;
+	}
+
+	return campaign.schedulingInfo?.scheduledPosts.find(
+		(scheduledPost) =>
+			scheduledPost.postId === postId && scheduledPost.typefullyId && scheduledPost.status !== "cancelled",
+	);
+}
+
+/**
+ * Store a draft's outcome and checkpoint so an interrupted run can resume after it
+ *
+ * Only this draft's entry and its post or thread change, so concurrent saves are kept.
+ */
+async function recordDraftCheckpoint(
+	ctx: AgentContext<any, unknown, AppState>,
+	campaignId: string,
+	scheduledPost: SchedulingInfo["scheduledPosts"][number],
+	error?: string,
+): Promise<void> {
+	await updateCampaign(ctx, campaignId, (latest) => {
+		const scheduledPosts = (latest.schedulingInfo?.scheduledPosts ?? []).filter(
+			(existing) => existing.postId !== scheduledPost.postId,
+		);
+		scheduledPosts.push(scheduledPost);
+
+		latest.schedulingInfo = { ...latest.schedulingInfo, scheduledPosts };
+
+		const item = findReviewItem(latest, scheduledPost.postId);
+		if (item && scheduledPost.status !== "failed") {
+			item.scheduledDate = scheduledPost.scheduledDate;
+			item.typefullyId = scheduledPost.typefullyId;
+		}
+
+		setCheckpoint(
+			latest,
+			`draft:${scheduledPost.postId}`,
+			scheduledPost.status === "failed" ? "failed" : "completed",
+			error,
+		);
+	});
+
+	if (scheduledPost.status !== "failed") {
+		await indexTypefullyDraft(ctx, scheduledPost.typefullyId, campaignId);
+	}
+
+	await appendCampaignEvent(ctx, campaignId, {
+		type: "draft_scheduled",
+		postId: scheduledPost.postId,
+		typefullyId: scheduledPost.typefullyId,
+		scheduledDate: scheduledPost.scheduledDate,
+		status: scheduledPost.status === "failed" ? "failed" : "scheduled",
+		error,
+	});
+}
+
+/**
+ * Cancel a campaign's pending Typefully drafts, or just those of `postIds`, and mark them cancelled
+ */
+async function cancelScheduledDrafts(
+	campaign: Campaign,
+	ctx: AgentContext<any, unknown, AppState>,
+	apiKey: string,
+	postIds?: string[],
+): Promise<SchedulerOutput> {
+	// Published drafts are already live and failed ones never reached Typefully
+	const pendingDrafts =
+		campaign.schedulingInfo?.scheduledPosts.filter(
+			(scheduledPost) =>
+				(!postIds || postIds.includes(scheduledPost.postId)) &&
+				scheduledPost.typefullyId &&
+				(scheduledPost.status === "scheduled" || scheduledPost.status === "draft"),
+		) ?? [];
+
+	ctx.logger.info("Cancelling %d drafts for campaign %s", pendingDrafts.length, campaign.id);
+
+	const cancelledPostIds: string[] = [];
+	for (const draft of pendingDrafts) {
+		try {
+			await deleteTypefullyDraft(draft.typefullyId, apiKey, ctx);
+			cancelledPostIds.push(draft.postId);
+		} catch (error) {
+			ctx.logger.error("Failed to cancel draft %s: %s", draft.typefullyId, error);
+		}
+	}
+
+	if (cancelledPostIds.length > 0) {
+		await updateCampaign(ctx, campaign.id, (latest) => {
+			for (const scheduledPost of latest.schedulingInfo?.scheduledPosts ?? []) {
+				if (cancelledPostIds.includes(scheduledPost.postId)) {
+					scheduledPost.status = "cancelled";
+					// A later approval or run schedules the post again
+					delete latest.checkpoints?.[`draft:${scheduledPost.postId}`];
+				}
+			}
+		});
+	}
+
+	const remaining = pendingDrafts.length - cancelledPostIds.length;
+
+	return {
+		campaignId: campaign.id,
+		scheduledPosts: remaining,
+		cancelledPosts: cancelledPostIds.length,
+		message:
+			remaining > 0
+				? `Cancelled ${cancelledPostIds.length} drafts, ${remaining} could not be cancelled`
+				: `Cancelled ${cancelledPostIds.length} drafts for campaign`,
+		status: "success" as const,
+	};
+}
+
+/**
+ * Replace the live drafts of some posts with drafts of their current content, on the same dates
+ *
+ * Posts without a live draft are left for the next scheduling run. Posts that
+ * may no longer be scheduled, such as regenerated ones in a campaign that
+ * requires approval, have their draft cancelled instead and wait for approval.
+ */
+async function replaceDrafts(
+	campaign: Campaign,
+	postIds: string[],
+	ctx: AgentContext<any, unknown, AppState>,
+	apiKey: string,
+): Promise<SchedulerOutput> {
+	const liveDrafts =
+		campaign.schedulingInfo?.scheduledPosts.filter(
+			(scheduledPost) =>
+				postIds.includes(scheduledPost.postId) &&
+				scheduledPost.typefullyId &&
+				(scheduledPost.status === "scheduled" || scheduledPost.status === "draft"),
+		) ?? [];
+
+	const heldPostIds = liveDrafts
+		.filter((draft) => {
+			const item = findReviewItem(campaign, draft.postId);
+			return item && !canSchedule(campaign, item);
+		})
+		.map((draft) => draft.postId);
+
+	const cancelled =
+		heldPostIds.length > 0 ? await cancelScheduledDrafts(campaign, ctx, apiKey, heldPostIds) : undefined;
+
+	let replaced = 0;
+	for (const draft of liveDrafts) {
+		if (heldPostIds.includes(draft.postId)) continue;
+
+		const [, platform, index] = draft.postId.match(/^(linkedin|twitter)-(?:post|thread)-(\d+)$/) ?? [];
+		const post = platform === "linkedin" ? campaign.content?.linkedInPosts[Number(index)] : undefined;
+		const thread = platform === "twitter" ? campaign.content?.twitterThreads[Number(index)] : undefined;
+
+		if (!post && !thread) {
+			ctx.logger.warn("Cannot replace draft %s: %s no longer exists", draft.typefullyId, draft.postId);
+			continue;
+		}
+
+		try {
+			await deleteTypefullyDraft(draft.typefullyId, apiKey, ctx);
+		} catch (error) {
+			// The old draft is still live, so keep pointing at it
+			ctx.logger.error("Failed to remove draft %s before replacing it: %s", draft.typefullyId, error);
+			continue;
+		}
+
+		try {
+			const typefullyId = post
+				? await createTypefullyDraft(post.content, "linkedin", apiKey, ctx, draft.scheduledDate)
+				: await createTypefullyDraft(toThreadContent(thread!), "twitter", apiKey, ctx, draft.scheduledDate, true);
+
+			await recordDraftCheckpoint(ctx, campaign.id, { ...draft, typefullyId, status: "scheduled" });
+			replaced++;
+		} catch (error) {
+			ctx.logger.error("Failed to replace draft for %s: %s", draft.postId, error);
+			await recordDraftCheckpoint(ctx, campaign.id, { ...draft, typefullyId: "", status: "failed" }, String(error));
+		}
+	}
+
+	const toReplace = liveDrafts.length - heldPostIds.length;
+	const cancelledPosts = cancelled?.status === "success" ? (cancelled.cancelledPosts ?? 0) : 0;
+
+	return {
+		campaignId: campaign.id,
+		scheduledPosts: replaced,
+		cancelledPosts,
+		message:
+			(replaced < toReplace
+				? `Replaced ${replaced} drafts, ${toReplace - replaced} could not be replaced`
+				: `Replaced ${replaced} drafts for campaign`) +
+			(heldPostIds.length > 0 ? `; cancelled ${cancelledPosts} drafts awaiting approval` : ""),
+		status: "success" as const,
+	};
+}
+
+/**
+ * Create drafts for some posts and threads without a full scheduling run
+ *
+ * Each item gets the date it had before, such as a draft that was cancelled
+ * when it was rejected, or the date a full run gives its position. Items that
+ * already have a draft or may not be scheduled are skipped.
+ */
+async function scheduleItems(
+	campaign: Campaign,
+	postIds: string[],
+	ctx: AgentContext<any, unknown, AppState>,
+	apiKey: string,
+): Promise<SchedulerOutput> {
+	const firstDate = getValidDate(campaign.publishDate);
+	const linkedInCount = campaign.content?.linkedInPosts.length ?? 0;
+
+	let scheduled = 0;
+	for (const postId of postIds) {
+		const parsed = parsePostId(postId);
+		const item = findReviewItem(campaign, postId);
+		if (!parsed || !item) {
+			ctx.logger.warn("Cannot schedule %s: it does not exist", postId);
+			continue;
+		}
+		if (getCompletedDraft(campaign, postId) || !canSchedule(campaign, item)) continue;
+
+		const previous = campaign.schedulingInfo?.scheduledPosts.find((scheduledPost) => scheduledPost.postId === postId);
+		const position = parsed.platform === "linkedin" ? parsed.index : linkedInCount + parsed.index;
+		const scheduledDate = previous?.scheduledDate || incrementDateByDays(firstDate, position);
+
+		try {
+			const typefullyId =
+				"tweets" in item
+					? await createTypefullyDraft(toThreadContent(item), "twitter", apiKey, ctx, scheduledDate, true)
+					: await createTypefullyDraft(item.content, "linkedin", apiKey, ctx, scheduledDate);
+
+			await recordDraftCheckpoint(ctx, campaign.id, { postId, typefullyId, scheduledDate, status: "scheduled" });
+			scheduled++;
+		} catch (error) {
+			ctx.logger.error("Failed to schedule %s: %s", postId, error);
+			await recordDraftCheckpoint(
+				ctx,
+				campaign.id,
+				{ postId, typefullyId: "", scheduledDate, status: "failed" },
+				String(error),
+			);
+		}
+	}
+
+	return {
+		campaignId: campaign.id,
+		scheduledPosts: scheduled,
+		message: `Scheduled ${scheduled} of ${postIds.length} posts for campaign`,
+		status: "success" as const,
+	};
+}
+
+/**
+ * Delete a draft using the Typefully API
+ */
+async function deleteTypefullyDraft(
+	typefullyId: string,
+	apiKey: string,
+	ctx: AgentContext<any, unknown, AppState>,
+): Promise<void> {
+	const response = await fetch(`${TYPEFULLY_API_URL}/drafts/${typefullyId}/`, {
+		method: "DELETE",
+		headers: {
+			"X-API-KEY": `Bearer ${apiKey}`,
+		},
+	});
+
+	// A missing draft was already removed in Typefully, which is what we want
+	if (!response.ok && response.status !== 404) {
+		const errorText = await response.text();
+		throw new Error(
+			`Failed to delete draft: ${response.status} ${response.statusText} - ${errorText}`,
+		);
+	}
+
+	ctx.logger.info("Typefully draft deleted: %s", typefullyId);
+}
+
 /**
  * Create a draft and schedule it using the Typefully API
  */
@@ -1,44 +1,262 @@
-import { createRouter } from '@agentuity/runtime';
+import { createRouter, sse, validator } from '@agentuity/runtime';
+import copywriter from '@agent/copywriter';
+import scheduler from '@agent/scheduler';
+import {
+	type Campaign,
+	CampaignCloneRequestSchema,
+	CampaignCreateRequestSchema,
+	type CampaignEvent,
+	CampaignEventSchema,
+	CampaignImportRequestSchema,
+	CampaignListQuerySchema,
+	CampaignUpdateRequestSchema,
+	PostCreateRequestSchema,
+	PostUpdateRequestSchema,
+	PurgeTrashRequestSchema,
+	RegenerateRequestSchema,
+	RejectRequestSchema,
+	ReorderRequestSchema,
+	ThreadCreateRequestSchema,
+} from '../../types';
+import { requireApiKey } from '../../utils/api-key-store';
+import { CampaignQueryError, queryCampaigns } from '../../utils/campaign-query';
+import { CampaignMigrationError } from '../../utils/campaign-migrations';
+import { getCampaignRepository } from '../../utils/campaign-repository';
+import {
+	ContentEditError,
+	addLinkedInPost,
+	addTweet,
+	addTwitterThread,
+	removeLinkedInPost,
+	removeTweet,
+	removeTwitterThread,
+	reorderLinkedInPosts,
+	reorderTweets,
+	updateLinkedInPost,
+	updateTweet,
+} from '../../utils/content-edits';
+import { shiftDate } from '../../utils/date-utils';
+import { getCampaignEvents } from '../../utils/event-store';
+import { createCampaignBundle, renderPostsCsv, renderPostsMarkdown } from '../../utils/export-utils';
+import { requireGenerationCapacity } from '../../utils/generation-limiter';
+import { idempotent } from '../../utils/idempotency-store';
+import {
+	type StoreContext,
+	cloneCampaign,
+	createCampaign,
+	importCampaign,
+	isStepCompleted,
+	listCampaignRevisions,
+	migrateAllCampaigns,
+	restoreCampaignRevision,
+	setCheckpoint,
+	updateCampaign,
+} from '../../utils/kv-store';
+import { getNextPipelineStep, runCampaignPipeline, toCampaignHandoff } from '../../utils/pipeline';
+import { rateLimit } from '../../utils/rate-limit';
+import { findReviewItem, setReview } from '../../utils/review';
+import {
+	getTrashRetentionDays,
+	isTrashed,
+	listTrashedCampaigns,
+	purgeCampaign,
+	restoreTrashedCampaign,
+	trashCampaign,
+} from '../../utils/trash';
+import { DEFAULT_WORKSPACE_ID, resolveWorkspaceId } from '../../utils/workspace-store';
 
-const CAMPAIGNS_STORE = 'campaigns';
-const CAMPAIGNS_INDEX_STORE = 'campaigns_meta';
-const CAMPAIGNS_INDEX_KEY = 'campaigns_index';
+const EVENT_POLL_INTERVAL_MS = 1000;
+const EVENT_STREAM_MAX_MS = 15 * 60 * 1000;
 
-interface CampaignIndex {
-	campaignIds: string[];
+const router = createRouter();
+
+/**
+ * Get the request's workspace; invalid IDs are rejected before any handler runs
+ */
+function workspaceOf(c: { req: Parameters<typeof resolveWorkspaceId>[0] }): string {
+	return resolveWorkspaceId(c.req) ?? DEFAULT_WORKSPACE_ID;
 }
 
-const router = createRouter();
+/**
+ * Load a campaign owned by a workspace; campaigns of other workspaces are treated as missing
+ */
+async function getWorkspaceCampaign(ctx: StoreContext, workspaceId: string, id: string) {
+	const campaign = await getCampaignRepository(ctx).get(id);
+	return campaign?.workspaceId === workspaceId ? campaign : null;
+}
+
+/**
+ * Parse a post, thread or tweet index from the path
+ */
+function parseIndex(value: string): number {
+	if (!/^\d+$/.test(value)) {
+		throw new ContentEditError(`Invalid index: ${value}`, 400);
+	}
+	return Number.parseInt(value, 10);
+}
+
+/**
+ * Apply an edit to the latest copy of a workspace campaign and save it
+ * @throws ContentEditError when the campaign is missing or trashed, or the edit is not allowed
+ */
+async function editCampaign(
+	ctx: StoreContext,
+	workspaceId: string,
+	id: string,
+	edit: (campaign: Campaign) => void,
+): Promise<Campaign> {
+	const campaign = await getWorkspaceCampaign(ctx, workspaceId, id);
+
+	if (!campaign) {
+		throw new ContentEditError('Campaign not found', 404);
+	}
+
+	if (isTrashed(campaign)) {
+		throw new ContentEditError('Campaign is in the trash; restore it before editing', 409);
+	}
+
+	const updated = await updateCampaign(ctx, id, edit);
+	if (!updated) {
+		throw new Error(`Failed to save campaign ${id}`);
+	}
+
+	return updated;
+}
+
+router.use('*', rateLimit());
+router.use('*', requireApiKey());
 
-router.get('/', async (c) => {
+router.use('*', async (c, next) => {
+	if (!resolveWorkspaceId(c.req)) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+	await next();
+});
+
+router.get('/', validator({ input: CampaignListQuerySchema }), async (c) => {
 	try {
-		const result = await c.var.kv.get(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY);
-		const indexData = result.data as unknown as CampaignIndex | undefined;
-		const campaignIds = indexData?.campaignIds?.filter((id) => typeof id === 'string' && id.trim()) || [];
+		const page = await queryCampaigns(c.var, workspaceOf(c), c.req.valid('query'));
 
-		if (campaignIds.length === 0) {
-			return c.json({ campaigns: [] });
+		return c.json(page);
+	} catch (error) {
+		if (error instanceof CampaignQueryError) {
+			return c.json({ error: error.message }, 400);
 		}
 
-		const results = await Promise.allSettled(
-			campaignIds.map(async (id) => {
-				const res = await c.var.kv.get(CAMPAIGNS_STORE, id);
-				return res?.data ?? null;
-			}),
+		c.var.logger.error('Failed to list campaigns: %s', error);
+		return c.json({ error: 'Failed to list campaigns' }, 500);
+	}
+});
+
+router.post('/', idempotent(), validator({ input: CampaignCreateRequestSchema }), async (c) => {
+	const { topic, description, publishDate, source, requireApproval, content } = c.req.valid('json');
+
+	try {
+		let campaign = await createCampaign(
+			c.var,
+			topic,
+			description,
+			publishDate,
+			source,
+			workspaceOf(c),
+			requireApproval,
 		);
 
-		const campaigns = results
-			.filter((r) => r.status === 'fulfilled')
-			.map((r) => (r as PromiseFulfilledResult<unknown>).value)
-			.filter(Boolean);
+		// Posts written here count as generated, so the pipeline only fills in what is missing
+		if (content && (content.linkedInPosts.length > 0 || content.twitterThreads.length > 0)) {
+			const updated = await updateCampaign(c.var, campaign.id, (latest) => {
+				for (const post of content.linkedInPosts) addLinkedInPost(latest, post);
+				for (const thread of content.twitterThreads) addTwitterThread(latest, thread);
+				if (content.linkedInPosts.length > 0) setCheckpoint(latest, 'linkedin', 'completed');
+				if (content.twitterThreads.length > 0) setCheckpoint(latest, 'twitter', 'completed');
+			});
 
-		return c.json({ campaigns });
+			if (!updated) {
+				return c.json({ error: 'Failed to save campaign content' }, 500);
+			}
+			campaign = updated;
+		}
+
+		return c.json({ campaign }, 201);
 	} catch (error) {
-		c.var.logger.error('Failed to list campaigns: %s', error);
-		return c.json({ error: 'Failed to list campaigns' }, 500);
+		c.var.logger.error('Failed to create campaign: %s', error);
+		return c.json({ error: 'Failed to create campaign' }, 500);
+	}
+});
+
+router.get('/trash', async (c) => {
+	try {
+		const trash = await listTrashedCampaigns(c.var, workspaceOf(c));
+
+		return c.json({ retentionDays: getTrashRetentionDays(), campaigns: trash });
+	} catch (error) {
+		c.var.logger.error('Failed to list trashed campaigns: %s', error);
+		return c.json({ error: 'Failed to list trashed campaigns' }, 500);
+	}
+});
+
+// Purging deletes campaigns for good, so it needs an admin key like DELETE does
+router.post('/trash/purge', requireApiKey('admin'), validator({ input: PurgeTrashRequestSchema }), async (c) => {
+	const { campaignIds, cancelDrafts = false } = c.req.valid('json');
+
+	try {
+		const trash = await listTrashedCampaigns(c.var, workspaceOf(c));
+		const selected = campaignIds
+			? trash.filter((entry) => campaignIds.includes(entry.campaign.id))
+			: trash.filter((entry) => entry.expired);
+
+		const results = [];
+		for (const entry of selected) {
+			results.push(await purgeCampaign(c.var, entry.campaign, cancelDrafts));
+		}
+
+		return c.json({ results });
+	} catch (error) {
+		c.var.logger.error('Failed to purge trash: %s', error);
+		return c.json({ error: 'Failed to purge trash' }, 500);
+	}
+});
+
+// Migrating rewrites the campaigns of every workspace
+router.post('/migrate', requireApiKey('admin'), async (c) => {
+	const dryRun = c.req.query('dryRun') === 'true';
+
+	try {
+		const report = await migrateAllCampaigns(c.var, dryRun);
+
+		return c.json({ dryRun, ...report });
+	} catch (error) {
+		c.var.logger.error('Failed to migrate campaigns: %s', error);
+		return c.json({ error: 'Failed to migrate campaigns' }, 500);
 	}
 });
 
+router.post('/import', idempotent(), validator({ input: CampaignImportRequestSchema }), async (c) => {
+	const body = c.req.valid('json');
+	const bundles = Array.isArray(body) ? body : [body];
+
+	const imported = [];
+	const failed = [];
+
+	for (const [index, bundle] of bundles.entries()) {
+		try {
+			const { campaign, originalId } = await importCampaign(c.var, workspaceOf(c), bundle.campaign);
+			imported.push({ originalId, campaignId: campaign.id, renamed: originalId !== campaign.id });
+		} catch (error) {
+			if (!(error instanceof CampaignMigrationError)) {
+				c.var.logger.error('Failed to import campaign bundle %d: %s', index, error);
+			}
+			failed.push({
+				index,
+				error: error instanceof Error ? error.message : String(error),
+				issues: error instanceof CampaignMigrationError ? error.issues : [],
+			});
+		}
+	}
+
+	return c.json({ imported, failed }, imported.length === 0 ? 400 : 200);
+});
+
 router.get('/:id', async (c) => {
 	const id = c.req.param('id');
 
@@ -47,8 +265,7 @@ router.get('/:id', async (c) => {
 	}
 
 	try {
-		const result = await c.var.kv.get(CAMPAIGNS_STORE, id);
-		const campaign = result?.data;
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
 
 		if (!campaign) {
 			return c.json({ error: 'Campaign not found' }, 404);
@@ -56,52 +273,717 @@ router.get('/:id', async (c) => {
 
 		return c.json({ campaign });
 	} catch (error) {
+		if (error instanceof CampaignMigrationError) {
+			return c.json({ error: error.message, issues: error.issues }, 422);
+		}
+
 		c.var.logger.error('Failed to get campaign %s: %s', id, error);
 		return c.json({ error: 'Failed to get campaign' }, 500);
 	}
 });
 
-router.delete('/:id', async (c) => {
+router.patch('/:id', validator({ input: CampaignUpdateRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const changes = c.req.valid('json');
+
+	try {
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			if (changes.topic !== undefined) latest.topic = changes.topic;
+			if (changes.requireApproval !== undefined) latest.requireApproval = changes.requireApproval;
+			for (const field of ['description', 'publishDate', 'source'] as const) {
+				const value = changes[field];
+				if (value === null) delete latest[field];
+				else if (value !== undefined) latest[field] = value;
+			}
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to update campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to update campaign' }, 500);
+	}
+});
+
+router.get(
+	'/:id/events',
+	async (c, next) => {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), c.req.param('id'));
+
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		await next();
+	},
+	sse({ output: CampaignEventSchema }, async (c, stream) => {
+		const id = c.req.param('id');
+		const startedAt = Date.now();
+
+		// Reconnecting clients pick up after the last event they saw
+		let lastId = Number.parseInt(c.req.header('Last-Event-ID') || '0', 10) || 0;
+		let closed = false;
+
+		stream.onAbort(() => {
+			closed = true;
+		});
+
+		const send = async (events: CampaignEvent[]) => {
+			for (const event of events) {
+				await stream.writeSSE({
+					id: String(event.id),
+					event: event.type,
+					data: JSON.stringify(event),
+				});
+				lastId = event.id;
+			}
+		};
+
+		try {
+			while (!closed && Date.now() - startedAt < EVENT_STREAM_MAX_MS) {
+				const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+				const events = await getCampaignEvents(c.var, id, lastId);
+				await send(events);
+
+				const finished = campaign?.status === 'active' || campaign?.status === 'completed';
+				const sawFinalStatus = events.some(
+					(event) => event.type === 'status' && (event.status === 'active' || event.status === 'completed'),
+				);
+
+				if (!campaign || sawFinalStatus || (finished && events.length === 0)) {
+					// Send the events still held back as recent before ending the stream
+					await send(await getCampaignEvents(c.var, id, lastId, { includeRecent: true }));
+					await stream.writeSSE({
+						event: 'done',
+						data: JSON.stringify({ campaignId: id, status: campaign?.status ?? null }),
+					});
+					break;
+				}
+
+				await new Promise((resolve) => setTimeout(resolve, EVENT_POLL_INTERVAL_MS));
+			}
+		} catch (error) {
+			c.var.logger.error('Failed to stream events for campaign %s: %s', id, error);
+			await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to stream campaign events' }) });
+		}
+
+		stream.close();
+	}),
+);
+
+router.post('/:id/resume', idempotent(), requireGenerationCapacity(), async (c) => {
+	const id = c.req.param('id');
+
+	if (!id?.trim()) {
+		return c.json({ error: 'Campaign ID is required' }, 400);
+	}
+
+	try {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		// Every step may have completed while the final status update was lost
+		const nextStep = getNextPipelineStep(campaign);
+		const finished = campaign.status === 'active' || campaign.status === 'completed';
+
+		if (isTrashed(campaign)) {
+			return c.json({ error: 'Campaign is in the trash; restore it before resuming' }, 409);
+		}
+
+		if (!nextStep && finished) {
+			return c.json({ error: 'Campaign has no incomplete steps to resume' }, 409);
+		}
+
+		c.var.logger.info('Resuming campaign %s from step: %s', id, nextStep ?? 'status update');
+
+		const pipelineResult = await runCampaignPipeline(toCampaignHandoff(campaign));
+
+		return c.json({ resumedFrom: nextStep, result: pipelineResult });
+	} catch (error) {
+		c.var.logger.error('Failed to resume campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to resume campaign' }, 500);
+	}
+});
+
+router.post('/:id/clone', idempotent(), validator({ input: CampaignCloneRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const { topic, publishDate, shiftDays } = c.req.valid('json');
+
+	if (publishDate !== undefined && shiftDays !== undefined) {
+		return c.json({ error: 'Pass either publishDate or shiftDays, not both' }, 400);
+	}
+
+	try {
+		const source = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+		if (!source) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		if (shiftDays !== undefined && !source.publishDate) {
+			return c.json({ error: 'Campaign has no publish date to shift' }, 400);
+		}
+
+		const campaign = await cloneCampaign(c.var, source, {
+			topic,
+			publishDate:
+				shiftDays !== undefined
+					? shiftDate(source.publishDate!, shiftDays)
+					: publishDate,
+		});
+
+		// A new topic needs new posts, written from the copied research in the background
+		const rewriting = Boolean(campaign.topic !== source.topic && campaign.research);
+		if (rewriting) {
+			c.waitUntil(async () => {
+				const result = await copywriter.run({
+					campaignId: campaign.id,
+					topic: campaign.topic,
+					schedule: false,
+				});
+
+				if (result.status === 'error') {
+					c.var.logger.error('Failed to rewrite content for clone %s: %s', campaign.id, result.error);
+				}
+			});
+		}
+
+		return c.json({ campaign, rewriting }, 201);
+	} catch (error) {
+		c.var.logger.error('Failed to clone campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to clone campaign' }, 500);
+	}
+});
+
+router.get('/:id/export', async (c) => {
+	const id = c.req.param('id');
+	const format = c.req.query('format') || 'json';
+
+	if (!['json', 'csv', 'markdown'].includes(format)) {
+		return c.json({ error: 'Format must be one of: json, csv, markdown' }, 400);
+	}
+
+	try {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		if (format === 'csv') {
+			c.header('Content-Disposition', `attachment; filename="${id}.csv"`);
+			return c.body(renderPostsCsv(campaign), 200, { 'Content-Type': 'text/csv; charset=utf-8' });
+		}
+
+		if (format === 'markdown') {
+			c.header('Content-Disposition', `attachment; filename="${id}.md"`);
+			return c.body(renderPostsMarkdown(campaign), 200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+		}
+
+		c.header('Content-Disposition', `attachment; filename="${id}.json"`);
+		return c.json(createCampaignBundle(campaign));
+	} catch (error) {
+		c.var.logger.error('Failed to export campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to export campaign' }, 500);
+	}
+});
+
+router.get('/:id/history', async (c) => {
+	const id = c.req.param('id');
+
+	if (!id?.trim()) {
+		return c.json({ error: 'Campaign ID is required' }, 400);
+	}
+
+	try {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		// Snapshots are only needed for restores, so the history lists what changed
+		const revisions = await listCampaignRevisions(c.var, id);
+
+		return c.json({
+			revisions: revisions.map(({ snapshot: _snapshot, ...revision }) => revision),
+		});
+	} catch (error) {
+		c.var.logger.error('Failed to get history for campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to get campaign history' }, 500);
+	}
+});
+
+router.post('/:id/revisions/:version/restore', async (c) => {
 	const id = c.req.param('id');
+	const version = Number.parseInt(c.req.param('version'), 10);
 
 	if (!id?.trim()) {
 		return c.json({ error: 'Campaign ID is required' }, 400);
 	}
 
+	if (!Number.isInteger(version) || version < 1) {
+		return c.json({ error: 'Revision version must be a positive integer' }, 400);
+	}
+
 	try {
-		const result = await c.var.kv.get(CAMPAIGNS_STORE, id);
-		if (!result?.data) {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+		if (!campaign) {
 			return c.json({ error: 'Campaign not found' }, 404);
 		}
 
-		const maxRetries = 3;
-		let indexUpdated = false;
+		const revisions = await listCampaignRevisions(c.var, id);
+		const revision = revisions.find((r) => r.version === version);
+
+		if (!revision) {
+			return c.json({ error: `Revision ${version} not found` }, 404);
+		}
+
+		const restored = await restoreCampaignRevision(c.var, id, revision);
+
+		if (!restored) {
+			return c.json({ error: 'Failed to restore campaign' }, 500);
+		}
+
+		return c.json({ campaign: restored, restoredFrom: version });
+	} catch (error) {
+		if (error instanceof CampaignMigrationError) {
+			return c.json({ error: `Revision ${version} cannot be restored: ${error.message}`, issues: error.issues }, 422);
+		}
+
+		c.var.logger.error('Failed to restore campaign %s to revision %d: %s', id, version, error);
+		return c.json({ error: 'Failed to restore campaign' }, 500);
+	}
+});
+
+router.post('/:id/linkedin-posts', validator({ input: PostCreateRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const { position, ...post } = c.req.valid('json');
+
+	try {
+		let index = 0;
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			index = addLinkedInPost(latest, post, position);
+		});
+
+		return c.json({ campaign, index }, 201);
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to add LinkedIn post to campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to add LinkedIn post' }, 500);
+	}
+});
+
+router.post('/:id/linkedin-posts/reorder', validator({ input: ReorderRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const { order } = c.req.valid('json');
+
+	try {
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			reorderLinkedInPosts(latest, order);
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to reorder LinkedIn posts of campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to reorder LinkedIn posts' }, 500);
+	}
+});
+
+router.patch('/:id/linkedin-posts/:index', validator({ input: PostUpdateRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const changes = c.req.valid('json');
+
+	try {
+		const index = parseIndex(c.req.param('index'));
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			updateLinkedInPost(latest, index, changes);
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to update LinkedIn post of campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to update LinkedIn post' }, 500);
+	}
+});
+
+router.delete('/:id/linkedin-posts/:index', async (c) => {
+	const id = c.req.param('id');
+
+	try {
+		const index = parseIndex(c.req.param('index'));
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			removeLinkedInPost(latest, index);
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to remove LinkedIn post from campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to remove LinkedIn post' }, 500);
+	}
+});
+
+router.post('/:id/twitter-threads', validator({ input: ThreadCreateRequestSchema }), async (c) => {
+	const id = c.req.param('id');
+	const { position, ...thread } = c.req.valid('json');
+
+	try {
+		let index = 0;
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			index = addTwitterThread(latest, thread, position);
+		});
+
+		return c.json({ campaign, index }, 201);
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to add Twitter thread to campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to add Twitter thread' }, 500);
+	}
+});
+
+router.delete('/:id/twitter-threads/:threadIndex', async (c) => {
+	const id = c.req.param('id');
+
+	try {
+		const threadIndex = parseIndex(c.req.param('threadIndex'));
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			removeTwitterThread(latest, threadIndex);
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to remove Twitter thread from campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to remove Twitter thread' }, 500);
+	}
+});
+
+router.post(
+	'/:id/twitter-threads/:threadIndex/tweets',
+	validator({ input: PostCreateRequestSchema }),
+	async (c) => {
+		const id = c.req.param('id');
+		const { position, ...tweet } = c.req.valid('json');
+
+		try {
+			const threadIndex = parseIndex(c.req.param('threadIndex'));
+			let index = 0;
+			const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+				index = addTweet(latest, threadIndex, tweet, position);
+			});
+
+			return c.json({ campaign, index }, 201);
+		} catch (error) {
+			if (error instanceof ContentEditError) {
+				return c.json({ error: error.message }, error.status);
+			}
+
+			c.var.logger.error('Failed to add tweet to campaign %s: %s', id, error);
+			return c.json({ error: 'Failed to add tweet' }, 500);
+		}
+	},
+);
+
+router.post(
+	'/:id/twitter-threads/:threadIndex/tweets/reorder',
+	validator({ input: ReorderRequestSchema }),
+	async (c) => {
+		const id = c.req.param('id');
+		const { order } = c.req.valid('json');
+
+		try {
+			const threadIndex = parseIndex(c.req.param('threadIndex'));
+			const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+				reorderTweets(latest, threadIndex, order);
+			});
+
+			return c.json({ campaign });
+		} catch (error) {
+			if (error instanceof ContentEditError) {
+				return c.json({ error: error.message }, error.status);
+			}
+
+			c.var.logger.error('Failed to reorder tweets of campaign %s: %s', id, error);
+			return c.json({ error: 'Failed to reorder tweets' }, 500);
+		}
+	},
+);
+
+router.patch(
+	'/:id/twitter-threads/:threadIndex/tweets/:tweetIndex',
+	validator({ input: PostUpdateRequestSchema }),
+	async (c) => {
+		const id = c.req.param('id');
+		const changes = c.req.valid('json');
+
+		try {
+			const threadIndex = parseIndex(c.req.param('threadIndex'));
+			const tweetIndex = parseIndex(c.req.param('tweetIndex'));
+			const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+				updateTweet(latest, threadIndex, tweetIndex, changes);
+			});
+
+			return c.json({ campaign });
+		} catch (error) {
+			if (error instanceof ContentEditError) {
+				return c.json({ error: error.message }, error.status);
+			}
+
+			c.var.logger.error('Failed to update tweet of campaign %s: %s', id, error);
+			return c.json({ error: 'Failed to update tweet' }, 500);
+		}
+	},
+);
+
+router.delete('/:id/twitter-threads/:threadIndex/tweets/:tweetIndex', async (c) => {
+	const id = c.req.param('id');
+
+	try {
+		const threadIndex = parseIndex(c.req.param('threadIndex'));
+		const tweetIndex = parseIndex(c.req.param('tweetIndex'));
+		const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+			removeTweet(latest, threadIndex, tweetIndex);
+		});
+
+		return c.json({ campaign });
+	} catch (error) {
+		if (error instanceof ContentEditError) {
+			return c.json({ error: error.message }, error.status);
+		}
+
+		c.var.logger.error('Failed to remove tweet from campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to remove tweet' }, 500);
+	}
+});
+
+// LinkedIn posts and Twitter threads are regenerated and reviewed the same way, by post ID
+for (const [base, pattern, label] of [
+	['/:id/posts/:postId', /^linkedin-post-\d+$/, 'LinkedIn post'],
+	['/:id/threads/:postId', /^twitter-thread-\d+$/, 'Twitter thread'],
+] as const) {
+	router.post(
+		`${base}/regenerate` as const,
+		idempotent(),
+		requireGenerationCapacity(),
+		validator({ input: RegenerateRequestSchema }),
+		async (c) => {
+			const id = c.req.param('id');
+			const postId = c.req.param('postId');
+			const { guidance } = c.req.valid('json');
+
+			if (!pattern.test(postId)) {
+				return c.json({ error: `Invalid ${label} ID: ${postId}` }, 400);
+			}
 
-		for (let attempt = 0; attempt < maxRetries; attempt++) {
 			try {
-				const indexResult = await c.var.kv.get(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY);
-				const indexData = indexResult.data as unknown as CampaignIndex | undefined;
-				const campaignIds = indexData?.campaignIds?.filter((cid) => cid !== id) || [];
-				await c.var.kv.set(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY, { campaignIds });
-				indexUpdated = true;
-				break;
-			} catch (err) {
-				c.var.logger.warn('Index update attempt %d failed for campaign %s: %s', attempt + 1, id, err);
+				const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+				if (!campaign) {
+					return c.json({ error: 'Campaign not found' }, 404);
+				}
+
+				if (isTrashed(campaign)) {
+					return c.json({ error: 'Campaign is in the trash; restore it before editing' }, 409);
+				}
+
+				if (!findReviewItem(campaign, postId)) {
+					return c.json({ error: `${label} ${postId} not found` }, 404);
+				}
+
+				const result = await copywriter.run({
+					campaignId: campaign.id,
+					topic: campaign.topic,
+					regenerate: { postId, guidance },
+				});
+
+				if (result.status === 'error') {
+					return c.json({ error: result.error }, 502);
+				}
+
+				const updated = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+				return c.json({ campaign: updated, result });
+			} catch (error) {
+				c.var.logger.error('Failed to regenerate %s of campaign %s: %s', postId, id, error);
+				return c.json({ error: `Failed to regenerate ${label}` }, 500);
 			}
+		},
+	);
+
+	router.post(`${base}/approve` as const, idempotent(), async (c) => {
+		const id = c.req.param('id');
+		const postId = c.req.param('postId');
+
+		if (!pattern.test(postId)) {
+			return c.json({ error: `Invalid ${label} ID: ${postId}` }, 400);
+		}
+
+		try {
+			const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+				setReview(latest, postId, 'approved');
+			});
+
+			// Campaigns past scheduling get the approved item's draft right away;
+			// earlier ones pick it up when the pipeline reaches the scheduler
+			const finished = campaign.status === 'active' || campaign.status === 'completed';
+			if (!finished || isStepCompleted(campaign, `draft:${postId}`)) {
+				return c.json({ campaign });
+			}
+
+			// Only this item is scheduled, so a completed campaign is not reopened
+			const schedulerResult = await scheduler.run({
+				campaignId: campaign.id,
+				content: campaign.content ?? { linkedInPosts: [], twitterThreads: [] },
+				publishDate: campaign.publishDate,
+				action: 'schedule',
+				postIds: [postId],
+			});
+			const updated = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+			return c.json({ campaign: updated, schedulerResult });
+		} catch (error) {
+			if (error instanceof ContentEditError) {
+				return c.json({ error: error.message }, error.status);
+			}
+
+			c.var.logger.error('Failed to approve %s of campaign %s: %s', postId, id, error);
+			return c.json({ error: `Failed to approve ${label}` }, 500);
 		}
+	});
+
+	router.post(`${base}/reject` as const, idempotent(), validator({ input: RejectRequestSchema }), async (c) => {
+		const id = c.req.param('id');
+		const postId = c.req.param('postId');
+		const { reason } = c.req.valid('json');
 
-		if (!indexUpdated) {
-			c.var.logger.error('Failed to update index for campaign %s after %d attempts', id, maxRetries);
-			return c.json({ error: 'Failed to update campaign index' }, 500);
+		if (!pattern.test(postId)) {
+			return c.json({ error: `Invalid ${label} ID: ${postId}` }, 400);
 		}
 
-		await c.var.kv.delete(CAMPAIGNS_STORE, id);
+		try {
+			const campaign = await editCampaign(c.var, workspaceOf(c), id, (latest) => {
+				setReview(latest, postId, 'rejected', reason);
+			});
 
-		return c.json({ success: true, message: `Campaign ${id} deleted` });
+			// A rejected item that was already scheduled loses its draft
+			const hasLiveDraft = campaign.schedulingInfo?.scheduledPosts.some(
+				(scheduledPost) =>
+					scheduledPost.postId === postId &&
+					scheduledPost.typefullyId &&
+					(scheduledPost.status === 'scheduled' || scheduledPost.status === 'draft'),
+			);
+			if (!hasLiveDraft) {
+				return c.json({ campaign });
+			}
+
+			const schedulerResult = await scheduler.run({
+				campaignId: campaign.id,
+				content: campaign.content ?? { linkedInPosts: [], twitterThreads: [] },
+				action: 'cancel',
+				postIds: [postId],
+			});
+			const updated = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+
+			return c.json({ campaign: updated, schedulerResult });
+		} catch (error) {
+			if (error instanceof ContentEditError) {
+				return c.json({ error: error.message }, error.status);
+			}
+
+			c.var.logger.error('Failed to reject %s of campaign %s: %s', postId, id, error);
+			return c.json({ error: `Failed to reject ${label}` }, 500);
+		}
+	});
+}
+
+// Removing posts and threads is editing; deleting a whole campaign is for admins
+router.delete('/:id', requireApiKey('admin'), async (c) => {
+	const id = c.req.param('id');
+
+	if (!id?.trim()) {
+		return c.json({ error: 'Campaign ID is required' }, 400);
+	}
+
+	try {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		if (isTrashed(campaign)) {
+			return c.json({ error: 'Campaign is already in the trash' }, 409);
+		}
+
+		const trashed = await trashCampaign(c.var, id);
+		if (!trashed) {
+			return c.json({ error: 'Failed to delete campaign' }, 500);
+		}
+
+		return c.json({
+			success: true,
+			message: `Campaign ${id} moved to trash for ${getTrashRetentionDays()} days`,
+		});
 	} catch (error) {
 		c.var.logger.error('Failed to delete campaign %s: %s', id, error);
 		return c.json({ error: 'Failed to delete campaign' }, 500);
 	}
 });
 
+router.post('/:id/restore', async (c) => {
+	const id = c.req.param('id');
+
+	if (!id?.trim()) {
+		return c.json({ error: 'Campaign ID is required' }, 400);
+	}
+
+	try {
+		const campaign = await getWorkspaceCampaign(c.var, workspaceOf(c), id);
+		if (!campaign) {
+			return c.json({ error: 'Campaign not found' }, 404);
+		}
+
+		if (!isTrashed(campaign)) {
+			return c.json({ error: 'Campaign is not in the trash' }, 409);
+		}
+
+		const restored = await restoreTrashedCampaign(c.var, id);
+		if (!restored) {
+			return c.json({ error: 'Failed to restore campaign' }, 500);
+		}
+
+		return c.json({ campaign: restored });
+	} catch (error) {
+		c.var.logger.error('Failed to restore campaign %s: %s', id, error);
+		return c.json({ error: 'Failed to restore campaign' }, 500);
+	}
+});
+
 export default router;
@@ -1,12 +1,85 @@
-import { createRouter } from '@agentuity/runtime';
+import { createRouter, validator } from '@agentuity/runtime';
 import manager from '@agent/manager';
- 
+import campaigns from './campaigns/route';
+import jobs from './jobs/route';
+import keys from './keys/route';
+import search from './search/route';
+import webhooks from './webhooks/route';
+import workspace from './workspace/route';
+import { ManagerRequestSchema } from '../types';
+import { requireApiKey } from '../utils/api-key-store';
+import { requireGenerationCapacity } from '../utils/generation-limiter';
+import { idempotent } from '../utils/idempotency-store';
+import { createJob, updateJob } from '../utils/job-store';
+import { buildOpenApiDocument } from '../utils/openapi';
+import { limitFailedAuthentication, rateLimit } from '../utils/rate-limit';
+import { resolveWorkspaceId } from '../utils/workspace-store';
+
 const api = createRouter();
- 
-api.post('/chat', manager.validator(), async (c) => {
-  const data = c.req.valid('json');
+
+api.use('*', limitFailedAuthentication());
+api.use('*', requireApiKey());
+api.use('*', rateLimit());
+
+// Built on first request, once every route has been registered
+let openApiDocument: Record<string, unknown> | undefined;
+
+api.get('/openapi.json', (c) => {
+  openApiDocument ??= buildOpenApiDocument([
+    { prefix: '/api', routes: api.routes },
+    { prefix: '/api/campaigns', routes: campaigns.routes },
+    { prefix: '/api/jobs', routes: jobs.routes },
+    { prefix: '/api/keys', routes: keys.routes },
+    { prefix: '/api/search', routes: search.routes },
+    { prefix: '/api/webhooks', routes: webhooks.routes },
+    { prefix: '/api/workspace', routes: workspace.routes },
+  ]);
+  return c.json(openApiDocument);
+});
+
+api.post('/chat', idempotent(), requireGenerationCapacity(), validator({ input: ManagerRequestSchema }), async (c) => {
+  const workspaceId = resolveWorkspaceId(c.req);
+  if (!workspaceId) {
+    return c.json({ error: 'Invalid workspace ID' }, 400);
+  }
+
+  // The workspace always comes from the request, never from the body
+  const data = { ...c.req.valid('json'), workspaceId };
+
+  // Async mode: queue a job and return its ID right away
+  const preferAsync = c.req.header('Prefer')?.includes('respond-async');
+  if (c.req.query('async') === 'true' || preferAsync) {
+    const job = await createJob(c.var, data);
+
+    c.waitUntil(async () => {
+      await updateJob(c.var, job.id, (j) => {
+        j.status = 'running';
+        j.progress = { stage: 'planning', percent: 5, nextStep: 'research' };
+      });
+
+      try {
+        const result = await manager.run({ ...data, jobId: job.id });
+
+        await updateJob(c.var, job.id, (j) => {
+          j.status = result.status === 'error' ? 'failed' : 'completed';
+          j.result = result;
+          j.error = result.status === 'error' ? result.error : undefined;
+          j.progress = { ...j.progress, percent: 100, nextStep: null };
+        });
+      } catch (error) {
+        c.var.logger.error('Job %s failed: %s', job.id, error);
+        await updateJob(c.var, job.id, (j) => {
+          j.status = 'failed';
+          j.error = error instanceof Error ? error.message : String(error);
+        });
+      }
+    });
+
+    return c.json({ jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` }, 202);
+  }
+
   const result = await manager.run(data);
   return c.json(result);
 });
- 
+
 export default api;
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { createRouter } from '@agentuity/runtime';
+import type { Job } from '../../types';
+import { requireApiKey } from '../../utils/api-key-store';
+import { getCampaignRepository } from '../../utils/campaign-repository';
+import { getJob, listJobs, saveJob } from '../../utils/job-store';
+import type { StoreContext } from '../../utils/kv-store';
+import { getPipelineProgress } from '../../utils/pipeline';
+import { rateLimit } from '../../utils/rate-limit';
+import { DEFAULT_WORKSPACE_ID, resolveWorkspaceId } from '../../utils/workspace-store';
+
+// Jobs that have not been touched for this long are assumed lost to a restart
+const JOB_STALE_AFTER_MS = 30 * 60 * 1000;
+
+const router = createRouter();
+
+router.use('*', rateLimit());
+router.use('*', requireApiKey());
+
+/**
+ * Get the workspace a job was queued in
+ */
+function getJobWorkspaceId(job: Job): string {
+	return job.request.workspaceId ?? DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Refresh a job's progress from its campaign and fail jobs that were interrupted
+ */
+async function refreshJob(ctx: StoreContext, job: Job): Promise<Job> {
+	if (job.status === 'completed' || job.status === 'failed') {
+		return job;
+	}
+
+	let lastActivity = job.updatedAt;
+
+	if (job.campaignId) {
+		const campaign = await getCampaignRepository(ctx).get(job.campaignId);
+
+		if (campaign) {
+			job.progress = getPipelineProgress(campaign);
+			lastActivity = campaign.updatedAt > lastActivity ? campaign.updatedAt : lastActivity;
+		}
+	}
+
+	if (Date.now() - new Date(lastActivity).getTime() > JOB_STALE_AFTER_MS) {
+		job.status = 'failed';
+		job.error = job.campaignId
+			? `Job was interrupted; resume it with POST /api/campaigns/${job.campaignId}/resume`
+			: 'Job was interrupted before a campaign was created';
+		job.updatedAt = new Date().toISOString();
+		await saveJob(ctx, job);
+	}
+
+	return job;
+}
+
+router.get('/', async (c) => {
+	const workspaceId = resolveWorkspaceId(c.req);
+	if (!workspaceId) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+
+	try {
+		const status = c.req.query('status');
+		const jobs = (await listJobs(c.var)).filter((job) => getJobWorkspaceId(job) === workspaceId);
+		const refreshed = await Promise.all(jobs.map((job) => refreshJob(c.var, job)));
+
+		return c.json({
+			jobs: status ? refreshed.filter((job) => job.status === status) : refreshed,
+		});
+	} catch (error) {
+		c.var.logger.error('Failed to list jobs: %s', error);
+		return c.json({ error: 'Failed to list jobs' }, 500);
+	}
+});
+
+router.get('/:id', async (c) => {
+	const id = c.req.param('id');
+
+	if (!id?.trim()) {
+		return c.json({ error: 'Job ID is required' }, 400);
+	}
+
+	const workspaceId = resolveWorkspaceId(c.req);
+	if (!workspaceId) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+
+	try {
+		const job = await getJob(c.var, id);
+
+		if (!job || getJobWorkspaceId(job) !== workspaceId) {
+			return c.json({ error: 'Job not found' }, 404);
+		}
+
+		return c.json({ job: await refreshJob(c.var, job) });
+	} catch (error) {
+		c.var.logger.error('Failed to get job %s: %s', id, error);
+		return c.json({ error: 'Failed to get job' }, 500);
+	}
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import { createRouter, validator } from '@agentuity/runtime';
+import { ApiKeyCreateRequestSchema } from '../../types';
+import { createApiKey, listApiKeys, requireApiKey, revokeApiKey } from '../../utils/api-key-store';
+import { rateLimit } from '../../utils/rate-limit';
+import { DEFAULT_WORKSPACE_ID, resolveWorkspaceId } from '../../utils/workspace-store';
+
+const router = createRouter();
+
+router.use('*', rateLimit());
+
+// Managing keys is for admins only, whatever the method, and each workspace manages its own
+router.use('*', requireApiKey('admin'));
+
+router.get('/', async (c) => {
+	try {
+		const keys = await listApiKeys(c.var, resolveWorkspaceId(c.req) ?? DEFAULT_WORKSPACE_ID);
+
+		return c.json({ keys });
+	} catch (error) {
+		c.var.logger.error('Failed to list API keys: %s', error);
+		return c.json({ error: 'Failed to list API keys' }, 500);
+	}
+});
+
+router.post('/', validator({ input: ApiKeyCreateRequestSchema }), async (c) => {
+	try {
+		const { apiKey, key } = await createApiKey(
+			c.var,
+			resolveWorkspaceId(c.req) ?? DEFAULT_WORKSPACE_ID,
+			c.req.valid('json'),
+		);
+
+		// The key is only ever returned here
+		return c.json({ apiKey, key }, 201);
+	} catch (error) {
+		c.var.logger.error('Failed to create API key: %s', error);
+		return c.json({ error: 'Failed to create API key' }, 500);
+	}
+});
+
+router.delete('/:id', async (c) => {
+	const id = c.req.param('id');
+
+	try {
+		const apiKey = await revokeApiKey(c.var, resolveWorkspaceId(c.req) ?? DEFAULT_WORKSPACE_ID, id);
+		if (!apiKey) {
+			return c.json({ error: 'API key not found' }, 404);
+		}
+
+		return c.json({ apiKey });
+	} catch (error) {
+		c.var.logger.error('Failed to revoke API key %s: %s', id, error);
+		return c.json({ error: 'Failed to revoke API key' }, 500);
+	}
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { createRouter, validator } from '@agentuity/runtime';
+import { SearchQuerySchema } from '../../types';
+import { requireApiKey } from '../../utils/api-key-store';
+import { rateLimit } from '../../utils/rate-limit';
+import { searchCampaigns } from '../../utils/search-index';
+import { resolveWorkspaceId } from '../../utils/workspace-store';
+
+const router = createRouter();
+
+router.use('*', rateLimit());
+router.use('*', requireApiKey());
+
+router.get('/', validator({ input: SearchQuerySchema }), async (c) => {
+	const { q, limit } = c.req.valid('query');
+
+	const workspaceId = resolveWorkspaceId(c.req);
+	if (!workspaceId) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+
+	try {
+		const hits = await searchCampaigns(c.var, workspaceId, q, limit);
+
+		return c.json({ query: q, hits });
+	} catch (error) {
+		c.var.logger.error('Failed to search campaigns for "%s": %s', q, error);
+		return c.json({ error: 'Failed to search campaigns' }, 500);
+	}
+});
+
+export default router;
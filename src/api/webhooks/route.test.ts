@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+	signWebhookPayload,
+} from '../../utils/webhook-signature';
+import router from './route';
+
+const secret = 'test-secret';
+const previousSecret = process.env.TYPEFULLY_WEBHOOK_SECRET;
+
+beforeAll(() => {
+	process.env.TYPEFULLY_WEBHOOK_SECRET = secret;
+});
+
+afterAll(() => {
+	if (previousSecret === undefined) {
+		delete process.env.TYPEFULLY_WEBHOOK_SECRET;
+	} else {
+		process.env.TYPEFULLY_WEBHOOK_SECRET = previousSecret;
+	}
+});
+
+function postWebhook(body: string, headers: Record<string, string>) {
+	return router.request('/typefully', {
+		method: 'POST',
+		body,
+		headers: { 'content-type': 'application/json', ...headers },
+	});
+}
+
+describe('POST /typefully', () => {
+	test('refuses an unsigned webhook with 401', async () => {
+		const res = await postWebhook('{}', {});
+
+		expect(res.status).toBe(401);
+	});
+
+	test('refuses a webhook with a wrong signature with 401', async () => {
+		const timestamp = String(Math.floor(Date.now() / 1000));
+		const res = await postWebhook('{}', {
+			[WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+			[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload('other-secret', timestamp, '{}'),
+		});
+
+		expect(res.status).toBe(401);
+	});
+
+	test('checks the body of a correctly signed webhook', async () => {
+		const timestamp = String(Math.floor(Date.now() / 1000));
+		const res = await postWebhook('{}', {
+			[WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+			[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, '{}'),
+		});
+
+		// Past the signature check, the empty notification is refused as invalid
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'Invalid notification' });
+	});
+});
@@ -0,0 +1,71 @@
+import { createRouter } from '@agentuity/runtime';
+import { PublishNotificationSchema } from '../../types';
+import { recordPublishOutcome } from '../../utils/publish-outcomes';
+import { rateLimit } from '../../utils/rate-limit';
+import {
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+	verifyWebhookSignature,
+} from '../../utils/webhook-signature';
+
+const router = createRouter();
+
+// Webhooks are signed with a shared secret instead of carrying an API key
+router.use('*', rateLimit());
+
+router.post('/typefully', async (c) => {
+	const secret = process.env.TYPEFULLY_WEBHOOK_SECRET;
+	if (!secret) {
+		c.var.logger.error('Publish webhook received but TYPEFULLY_WEBHOOK_SECRET is not set');
+		return c.json({ error: 'Webhook is not configured' }, 503);
+	}
+
+	const body = await c.req.text();
+	const refused = verifyWebhookSignature(
+		secret,
+		c.req.header(WEBHOOK_TIMESTAMP_HEADER),
+		c.req.header(WEBHOOK_SIGNATURE_HEADER),
+		body,
+	);
+	if (refused) {
+		return c.json({ error: refused }, 401);
+	}
+
+	let payload: unknown;
+	try {
+		payload = JSON.parse(body);
+	} catch {
+		return c.json({ error: 'Body must be JSON' }, 400);
+	}
+
+	const parsed = PublishNotificationSchema.safeParse(payload);
+	if (!parsed.success) {
+		return c.json(
+			{
+				error: 'Invalid notification',
+				issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+			},
+			400,
+		);
+	}
+
+	try {
+		const outcome = await recordPublishOutcome(c.var, parsed.data);
+		if (!outcome) {
+			return c.json({ error: `No scheduled post with Typefully ID ${parsed.data.typefullyId}` }, 404);
+		}
+
+		return c.json({
+			campaignId: outcome.campaign.id,
+			postId: outcome.postId,
+			status: parsed.data.status,
+			ignored: outcome.ignored,
+			campaignStatus: outcome.campaign.status,
+		});
+	} catch (error) {
+		c.var.logger.error('Failed to record publish outcome for %s: %s', parsed.data.typefullyId, error);
+		return c.json({ error: 'Failed to record publish outcome' }, 500);
+	}
+});
+
+export default router;
@@ -0,0 +1,71 @@
+import { createRouter, validator } from '@agentuity/runtime';
+import { WorkspaceUpdateSchema } from '../../types';
+import { authorizeRequest, requireApiKey } from '../../utils/api-key-store';
+import { rateLimit } from '../../utils/rate-limit';
+import {
+	DEFAULT_WORKSPACE_ID,
+	getWorkspace,
+	resolveWorkspaceId,
+	toPublicWorkspace,
+	updateWorkspace,
+} from '../../utils/workspace-store';
+
+const router = createRouter();
+
+router.use('*', rateLimit());
+router.use('*', requireApiKey());
+
+router.get('/', async (c) => {
+	const workspaceId = resolveWorkspaceId(c.req);
+	if (!workspaceId) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+
+	try {
+		const workspace = await getWorkspace(c.var, workspaceId);
+
+		// Workspaces without saved settings still exist, with everything unset
+		if (!workspace) {
+			return c.json({
+				workspace: {
+					id: workspaceId,
+					name: workspaceId === DEFAULT_WORKSPACE_ID ? 'Default' : workspaceId,
+					hasTypefullyApiKey: false,
+				},
+			});
+		}
+
+		return c.json({ workspace: toPublicWorkspace(workspace) });
+	} catch (error) {
+		c.var.logger.error('Failed to get workspace %s: %s', workspaceId, error);
+		return c.json({ error: 'Failed to get workspace' }, 500);
+	}
+});
+
+router.put('/', validator({ input: WorkspaceUpdateSchema }), async (c) => {
+	const workspaceId = resolveWorkspaceId(c.req);
+	if (!workspaceId) {
+		return c.json({ error: 'Invalid workspace ID' }, 400);
+	}
+
+	const update = c.req.valid('json');
+
+	// Changing where the workspace publishes is for admins only
+	if (update.typefullyApiKey !== undefined) {
+		const authorization = await authorizeRequest(c.var, c.req, 'admin');
+		if ('error' in authorization) {
+			return c.json({ error: authorization.error }, authorization.status);
+		}
+	}
+
+	try {
+		const workspace = await updateWorkspace(c.var, workspaceId, update);
+
+		return c.json({ workspace: toPublicWorkspace(workspace) });
+	} catch (error) {
+		c.var.logger.error('Failed to update workspace %s: %s', workspaceId, error);
+		return c.json({ error: 'Failed to update workspace' }, 500);
+	}
+});
+
+export default router;
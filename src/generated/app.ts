@@ -342,8 +342,18 @@ if (isDevelopment() && process.env.VITE_PORT) {
 // Mount API routes
 const { default: router_0 } = await import('../api/campaigns/route.js');
 app.route('/api/campaigns', router_0);
-const { default: router_1 } = await import('../api/index.js');
-app.route('/api', router_1);
+const { default: router_1 } = await import('../api/jobs/route.js');
+app.route('/api/jobs', router_1);
+const { default: router_2 } = await import('../api/keys/route.js');
+app.route('/api/keys', router_2);
+const { default: router_3 } = await import('../api/search/route.js');
+app.route('/api/search', router_3);
+const { default: router_4 } = await import('../api/webhooks/route.js');
+app.route('/api/webhooks', router_4);
+const { default: router_5 } = await import('../api/workspace/route.js');
+app.route('/api/workspace', router_5);
+const { default: router_6 } = await import('../api/index.js');
+app.route('/api', router_6);
 
 // Mount workbench API routes (/_agentuity/workbench/*)
 // Always available for cloud workbench communication
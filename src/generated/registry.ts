@@ -2,6 +2,7 @@
 // Auto-generated by Agentuity - DO NOT EDIT
 import chat from '../agent/manager/index.js';
 import copywriter from '../agent/copywriter/index.js';
+import researcher from '../agent/researcher/index.js';
 import scheduler from '../agent/scheduler/index.js';
 import type { AgentRunner } from '@agentuity/runtime';
 import type { InferInput, InferOutput } from '@agentuity/core';
@@ -68,6 +69,35 @@ export type CopywriterAgent = AgentRunner<
 	typeof copywriter['stream'] extends true ? true : false
 >;
 
+/**
+ * Input type for researcher agent
+ */
+export type ResearcherInput = InferInput<typeof researcher['inputSchema']>;
+
+/**
+ * Output type for researcher agent
+ */
+export type ResearcherOutput = InferOutput<typeof researcher['outputSchema']>;
+
+/**
+ * Input schema type for researcher agent
+ */
+export type ResearcherInputSchema = typeof researcher['inputSchema'];
+
+/**
+ * Output schema type for researcher agent
+ */
+export type ResearcherOutputSchema = typeof researcher['outputSchema'];
+
+/**
+ * Agent type for researcher
+ */
+export type ResearcherAgent = AgentRunner<
+	ResearcherInputSchema,
+	ResearcherOutputSchema,
+	typeof researcher['stream'] extends true ? true : false
+>;
+
 /**
  * Input type for scheduler agent
  */
@@ -134,6 +164,11 @@ export const AgentDefinitions = {
 	 * @type {CopywriterAgent}
 	 */
 	copywriter,
+	/**
+	 * researcher
+	 * @type {ResearcherAgent}
+	 */
+	researcher,
 	/**
 	 * scheduler
 	 * @type {SchedulerAgent}
@@ -151,6 +186,7 @@ declare module "@agentuity/runtime" {
 	export interface AgentRegistry {
 		chat: ChatAgent;
 		copywriter: CopywriterAgent;
+		researcher: ResearcherAgent;
 		scheduler: SchedulerAgent;
 	}
 }
@@ -59,11 +59,721 @@ declare module '@agentuity/frontend' {
 				stream: false;
 				params: never;
 			};
+	'POST /api/campaigns': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/campaigns/trash': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/trash/purge': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/migrate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/import': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
 	'GET /api/campaigns/:id': {
 				inputSchema: never;
 				outputSchema: never;
 				stream: false;
-				params: { id: string };
+				params: { id: string };
+			};
+	'PATCH /api/campaigns/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/resume': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/clone': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/campaigns/:id/export': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/campaigns/:id/history': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/revisions/:version/restore': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; version: string };
+			};
+	'POST /api/campaigns/:id/linkedin-posts': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/linkedin-posts/reorder': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'PATCH /api/campaigns/:id/linkedin-posts/:index': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; index: string };
+			};
+	'DELETE /api/campaigns/:id/linkedin-posts/:index': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; index: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'DELETE /api/campaigns/:id/twitter-threads/:threadIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'PATCH /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string; tweetIndex: string };
+			};
+	'DELETE /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string; tweetIndex: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/regenerate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/approve': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/reject': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/regenerate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/approve': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/reject': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'DELETE /api/campaigns/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/restore': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/jobs': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/jobs/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/keys': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/keys': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'DELETE /api/keys/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/search': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/webhooks/typefully': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/workspace': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'PUT /api/workspace': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/openapi.json': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/chat': {
+				inputSchema: POSTApiChatInputSchema;
+				outputSchema: POSTApiChatOutputSchema;
+				stream: typeof manager extends { stream?: infer S } ? S : false;
+				params: never;
+			};
+	}
+	
+	/**
+	 * WebSocket Route Registry
+	 * 
+	 * Maps WebSocket route paths to their schemas
+	 */
+	export interface WebSocketRouteRegistry {
+
+	}
+	
+	/**
+	 * Server-Sent Events Route Registry
+	 * 
+	 * Maps SSE route paths to their schemas
+	 */
+	export interface SSERouteRegistry {
+	'/api/campaigns/:id/events': {
+				inputSchema: never;
+				outputSchema: never;
+				params: { id: string };
+			};
+	}
+
+	/**
+	 * RPC Route Registry
+	 * 
+	 * Nested structure for RPC-style client access (e.g., client.hello.post())
+	 * Used by createClient() from @agentuity/frontend for type-safe RPC calls.
+	 */
+	export interface RPCRouteRegistry {
+		campaigns: {
+			/**
+			 * Route: GET /api/campaigns
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			id: {
+				clone: {
+					/**
+					 * Route: POST /api/campaigns/:id/clone
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				/**
+				 * Route: DELETE /api/campaigns/:id
+				 */
+				delete: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				events: {
+					/**
+					 * Route: GET /api/campaigns/:id/events
+					 */
+					eventstream: { input: never; output: never; type: 'sse'; params: { id: string }; paramsTuple: [string] };
+				};
+				export: {
+					/**
+					 * Route: GET /api/campaigns/:id/export
+					 */
+					get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				/**
+				 * Route: GET /api/campaigns/:id
+				 */
+				get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				history: {
+					/**
+					 * Route: GET /api/campaigns/:id/history
+					 */
+					get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				'linkedin-posts': {
+					index: {
+						/**
+						 * Route: DELETE /api/campaigns/:id/linkedin-posts/:index
+						 */
+						delete: { input: never; output: never; type: 'api'; params: { id: string; index: string }; paramsTuple: [string, string] };
+						/**
+						 * Route: PATCH /api/campaigns/:id/linkedin-posts/:index
+						 */
+						patch: { input: never; output: never; type: 'api'; params: { id: string; index: string }; paramsTuple: [string, string] };
+					};
+					/**
+					 * Route: POST /api/campaigns/:id/linkedin-posts
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					reorder: {
+						/**
+						 * Route: POST /api/campaigns/:id/linkedin-posts/reorder
+						 */
+						post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					};
+				};
+				/**
+				 * Route: PATCH /api/campaigns/:id
+				 */
+				patch: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				posts: {
+					postId: {
+						approve: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/approve
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						regenerate: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/regenerate
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						reject: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/reject
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				restore: {
+					/**
+					 * Route: POST /api/campaigns/:id/restore
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				resume: {
+					/**
+					 * Route: POST /api/campaigns/:id/resume
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				revisions: {
+					version: {
+						restore: {
+							/**
+							 * Route: POST /api/campaigns/:id/revisions/:version/restore
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; version: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				threads: {
+					postId: {
+						approve: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/approve
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						regenerate: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/regenerate
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						reject: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/reject
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				'twitter-threads': {
+					/**
+					 * Route: POST /api/campaigns/:id/twitter-threads
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					threadIndex: {
+						/**
+						 * Route: DELETE /api/campaigns/:id/twitter-threads/:threadIndex
+						 */
+						delete: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+						tweets: {
+							/**
+							 * Route: POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+							reorder: {
+								/**
+								 * Route: POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder
+								 */
+								post: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+							};
+							tweetIndex: {
+								/**
+								 * Route: DELETE /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex
+								 */
+								delete: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string; tweetIndex: string }; paramsTuple: [string, string, string] };
+								/**
+								 * Route: PATCH /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex
+								 */
+								patch: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string; tweetIndex: string }; paramsTuple: [string, string, string] };
+							};
+						};
+					};
+				};
+			};
+			import: {
+				/**
+				 * Route: POST /api/campaigns/import
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+			migrate: {
+				/**
+				 * Route: POST /api/campaigns/migrate
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+			/**
+			 * Route: POST /api/campaigns
+			 */
+			post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			trash: {
+				/**
+				 * Route: GET /api/campaigns/trash
+				 */
+				get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+				purge: {
+					/**
+					 * Route: POST /api/campaigns/trash/purge
+					 */
+					post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+				};
+			};
+		};
+		chat: {
+			/**
+			 * Route: POST /api/chat
+			 */
+			post: { input: POSTApiChatInput; output: POSTApiChatOutput; type: 'api'; params: never; paramsTuple: [] };
+		};
+		jobs: {
+			/**
+			 * Route: GET /api/jobs
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			id: {
+				/**
+				 * Route: GET /api/jobs/:id
+				 */
+				get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+			};
+		};
+		keys: {
+			/**
+			 * Route: GET /api/keys
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			id: {
+				/**
+				 * Route: DELETE /api/keys/:id
+				 */
+				delete: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+			};
+			/**
+			 * Route: POST /api/keys
+			 */
+			post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		'openapi.json': {
+			/**
+			 * Route: GET /api/openapi.json
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		search: {
+			/**
+			 * Route: GET /api/search
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		webhooks: {
+			typefully: {
+				/**
+				 * Route: POST /api/webhooks/typefully
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+		};
+		workspace: {
+			/**
+			 * Route: GET /api/workspace
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			/**
+			 * Route: PUT /api/workspace
+			 */
+			put: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+	}
+}
+
+// Backward compatibility: also augment @agentuity/react for older versions
+// that define RouteRegistry locally instead of re-exporting from @agentuity/frontend
+declare module '@agentuity/react' {
+	export interface RouteRegistry {
+	'GET /api/campaigns': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/campaigns/trash': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/trash/purge': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/migrate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/campaigns/import': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/campaigns/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'PATCH /api/campaigns/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/resume': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/clone': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/campaigns/:id/export': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/campaigns/:id/history': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/revisions/:version/restore': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; version: string };
+			};
+	'POST /api/campaigns/:id/linkedin-posts': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'POST /api/campaigns/:id/linkedin-posts/reorder': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'PATCH /api/campaigns/:id/linkedin-posts/:index': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; index: string };
+			};
+	'DELETE /api/campaigns/:id/linkedin-posts/:index': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; index: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'DELETE /api/campaigns/:id/twitter-threads/:threadIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string };
+			};
+	'PATCH /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string; tweetIndex: string };
+			};
+	'DELETE /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; threadIndex: string; tweetIndex: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/regenerate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/approve': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/posts/:postId/reject': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/regenerate': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/approve': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
+			};
+	'POST /api/campaigns/:id/threads/:postId/reject': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string; postId: string };
 			};
 	'DELETE /api/campaigns/:id': {
 				inputSchema: never;
@@ -71,86 +781,72 @@ declare module '@agentuity/frontend' {
 				stream: false;
 				params: { id: string };
 			};
-	'POST /api/chat': {
-				inputSchema: POSTApiChatInputSchema;
-				outputSchema: POSTApiChatOutputSchema;
-				stream: typeof manager extends { stream?: infer S } ? S : false;
+	'POST /api/campaigns/:id/restore': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
+			};
+	'GET /api/jobs': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
 				params: never;
 			};
-	}
-	
-	/**
-	 * WebSocket Route Registry
-	 * 
-	 * Maps WebSocket route paths to their schemas
-	 */
-	export interface WebSocketRouteRegistry {
-
-	}
-	
-	/**
-	 * Server-Sent Events Route Registry
-	 * 
-	 * Maps SSE route paths to their schemas
-	 */
-	export interface SSERouteRegistry {
-
-	}
-
-	/**
-	 * RPC Route Registry
-	 * 
-	 * Nested structure for RPC-style client access (e.g., client.hello.post())
-	 * Used by createClient() from @agentuity/frontend for type-safe RPC calls.
-	 */
-	export interface RPCRouteRegistry {
-		campaigns: {
-			/**
-			 * Route: GET /api/campaigns
-			 */
-			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
-			id: {
-				/**
-				 * Route: DELETE /api/campaigns/:id
-				 */
-				delete: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
-				/**
-				 * Route: GET /api/campaigns/:id
-				 */
-				get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+	'GET /api/jobs/:id': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: { id: string };
 			};
-		};
-		chat: {
-			/**
-			 * Route: POST /api/chat
-			 */
-			post: { input: POSTApiChatInput; output: POSTApiChatOutput; type: 'api'; params: never; paramsTuple: [] };
-		};
-	}
-}
-
-// Backward compatibility: also augment @agentuity/react for older versions
-// that define RouteRegistry locally instead of re-exporting from @agentuity/frontend
-declare module '@agentuity/react' {
-	export interface RouteRegistry {
-	'GET /api/campaigns': {
+	'GET /api/keys': {
 				inputSchema: never;
 				outputSchema: never;
 				stream: false;
 				params: never;
 			};
-	'GET /api/campaigns/:id': {
+	'POST /api/keys': {
 				inputSchema: never;
 				outputSchema: never;
 				stream: false;
-				params: { id: string };
+				params: never;
 			};
-	'DELETE /api/campaigns/:id': {
+	'DELETE /api/keys/:id': {
 				inputSchema: never;
 				outputSchema: never;
 				stream: false;
 				params: { id: string };
 			};
+	'GET /api/search': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'POST /api/webhooks/typefully': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/workspace': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'PUT /api/workspace': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
+	'GET /api/openapi.json': {
+				inputSchema: never;
+				outputSchema: never;
+				stream: false;
+				params: never;
+			};
 	'POST /api/chat': {
 				inputSchema: POSTApiChatInputSchema;
 				outputSchema: POSTApiChatOutputSchema;
@@ -162,7 +858,11 @@ declare module '@agentuity/react' {
 
 	}
 	export interface SSERouteRegistry {
-
+	'/api/campaigns/:id/events': {
+				inputSchema: never;
+				outputSchema: never;
+				params: { id: string };
+			};
 	}
 	export interface RPCRouteRegistry {
 		campaigns: {
@@ -171,14 +871,192 @@ declare module '@agentuity/react' {
 			 */
 			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
 			id: {
+				clone: {
+					/**
+					 * Route: POST /api/campaigns/:id/clone
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
 				/**
 				 * Route: DELETE /api/campaigns/:id
 				 */
 				delete: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				events: {
+					/**
+					 * Route: GET /api/campaigns/:id/events
+					 */
+					eventstream: { input: never; output: never; type: 'sse'; params: { id: string }; paramsTuple: [string] };
+				};
+				export: {
+					/**
+					 * Route: GET /api/campaigns/:id/export
+					 */
+					get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
 				/**
 				 * Route: GET /api/campaigns/:id
 				 */
 				get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				history: {
+					/**
+					 * Route: GET /api/campaigns/:id/history
+					 */
+					get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				'linkedin-posts': {
+					index: {
+						/**
+						 * Route: DELETE /api/campaigns/:id/linkedin-posts/:index
+						 */
+						delete: { input: never; output: never; type: 'api'; params: { id: string; index: string }; paramsTuple: [string, string] };
+						/**
+						 * Route: PATCH /api/campaigns/:id/linkedin-posts/:index
+						 */
+						patch: { input: never; output: never; type: 'api'; params: { id: string; index: string }; paramsTuple: [string, string] };
+					};
+					/**
+					 * Route: POST /api/campaigns/:id/linkedin-posts
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					reorder: {
+						/**
+						 * Route: POST /api/campaigns/:id/linkedin-posts/reorder
+						 */
+						post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					};
+				};
+				/**
+				 * Route: PATCH /api/campaigns/:id
+				 */
+				patch: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				posts: {
+					postId: {
+						approve: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/approve
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						regenerate: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/regenerate
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						reject: {
+							/**
+							 * Route: POST /api/campaigns/:id/posts/:postId/reject
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				restore: {
+					/**
+					 * Route: POST /api/campaigns/:id/restore
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				resume: {
+					/**
+					 * Route: POST /api/campaigns/:id/resume
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+				};
+				revisions: {
+					version: {
+						restore: {
+							/**
+							 * Route: POST /api/campaigns/:id/revisions/:version/restore
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; version: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				threads: {
+					postId: {
+						approve: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/approve
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						regenerate: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/regenerate
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+						reject: {
+							/**
+							 * Route: POST /api/campaigns/:id/threads/:postId/reject
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; postId: string }; paramsTuple: [string, string] };
+						};
+					};
+				};
+				'twitter-threads': {
+					/**
+					 * Route: POST /api/campaigns/:id/twitter-threads
+					 */
+					post: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+					threadIndex: {
+						/**
+						 * Route: DELETE /api/campaigns/:id/twitter-threads/:threadIndex
+						 */
+						delete: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+						tweets: {
+							/**
+							 * Route: POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets
+							 */
+							post: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+							reorder: {
+								/**
+								 * Route: POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder
+								 */
+								post: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string }; paramsTuple: [string, string] };
+							};
+							tweetIndex: {
+								/**
+								 * Route: DELETE /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex
+								 */
+								delete: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string; tweetIndex: string }; paramsTuple: [string, string, string] };
+								/**
+								 * Route: PATCH /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex
+								 */
+								patch: { input: never; output: never; type: 'api'; params: { id: string; threadIndex: string; tweetIndex: string }; paramsTuple: [string, string, string] };
+							};
+						};
+					};
+				};
+			};
+			import: {
+				/**
+				 * Route: POST /api/campaigns/import
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+			migrate: {
+				/**
+				 * Route: POST /api/campaigns/migrate
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+			/**
+			 * Route: POST /api/campaigns
+			 */
+			post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			trash: {
+				/**
+				 * Route: GET /api/campaigns/trash
+				 */
+				get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+				purge: {
+					/**
+					 * Route: POST /api/campaigns/trash/purge
+					 */
+					post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+				};
 			};
 		};
 		chat: {
@@ -187,6 +1065,64 @@ declare module '@agentuity/react' {
 			 */
 			post: { input: POSTApiChatInput; output: POSTApiChatOutput; type: 'api'; params: never; paramsTuple: [] };
 		};
+		jobs: {
+			/**
+			 * Route: GET /api/jobs
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			id: {
+				/**
+				 * Route: GET /api/jobs/:id
+				 */
+				get: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+			};
+		};
+		keys: {
+			/**
+			 * Route: GET /api/keys
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			id: {
+				/**
+				 * Route: DELETE /api/keys/:id
+				 */
+				delete: { input: never; output: never; type: 'api'; params: { id: string }; paramsTuple: [string] };
+			};
+			/**
+			 * Route: POST /api/keys
+			 */
+			post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		'openapi.json': {
+			/**
+			 * Route: GET /api/openapi.json
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		search: {
+			/**
+			 * Route: GET /api/search
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
+		webhooks: {
+			typefully: {
+				/**
+				 * Route: POST /api/webhooks/typefully
+				 */
+				post: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			};
+		};
+		workspace: {
+			/**
+			 * Route: GET /api/workspace
+			 */
+			get: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+			/**
+			 * Route: PUT /api/workspace
+			 */
+			put: { input: never; output: never; type: 'api'; params: never; paramsTuple: [] };
+		};
 	}
 }
 
@@ -202,6 +1138,15 @@ const _rpcRouteMetadata = {
 						"path": "/api/campaigns"
 				},
 				"id": {
+						"clone": {
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/:id/clone",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
 						"delete": {
 								"type": "api",
 								"path": "/api/campaigns/:id",
@@ -209,12 +1154,269 @@ const _rpcRouteMetadata = {
 										"id"
 								]
 						},
+						"events": {
+								"eventstream": {
+										"type": "sse",
+										"path": "/api/campaigns/:id/events",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
+						"export": {
+								"get": {
+										"type": "api",
+										"path": "/api/campaigns/:id/export",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
 						"get": {
 								"type": "api",
 								"path": "/api/campaigns/:id",
 								"pathParams": [
 										"id"
 								]
+						},
+						"history": {
+								"get": {
+										"type": "api",
+										"path": "/api/campaigns/:id/history",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
+						"linkedin-posts": {
+								"index": {
+										"delete": {
+												"type": "api",
+												"path": "/api/campaigns/:id/linkedin-posts/:index",
+												"pathParams": [
+														"id",
+														"index"
+												]
+										},
+										"patch": {
+												"type": "api",
+												"path": "/api/campaigns/:id/linkedin-posts/:index",
+												"pathParams": [
+														"id",
+														"index"
+												]
+										}
+								},
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/:id/linkedin-posts",
+										"pathParams": [
+												"id"
+										]
+								},
+								"reorder": {
+										"post": {
+												"type": "api",
+												"path": "/api/campaigns/:id/linkedin-posts/reorder",
+												"pathParams": [
+														"id"
+												]
+										}
+								}
+						},
+						"patch": {
+								"type": "api",
+								"path": "/api/campaigns/:id",
+								"pathParams": [
+										"id"
+								]
+						},
+						"posts": {
+								"postId": {
+										"approve": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/posts/:postId/approve",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										},
+										"regenerate": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/posts/:postId/regenerate",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										},
+										"reject": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/posts/:postId/reject",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										}
+								}
+						},
+						"restore": {
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/:id/restore",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
+						"resume": {
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/:id/resume",
+										"pathParams": [
+												"id"
+										]
+								}
+						},
+						"revisions": {
+								"version": {
+										"restore": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/revisions/:version/restore",
+														"pathParams": [
+																"id",
+																"version"
+														]
+												}
+										}
+								}
+						},
+						"threads": {
+								"postId": {
+										"approve": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/threads/:postId/approve",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										},
+										"regenerate": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/threads/:postId/regenerate",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										},
+										"reject": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/threads/:postId/reject",
+														"pathParams": [
+																"id",
+																"postId"
+														]
+												}
+										}
+								}
+						},
+						"twitter-threads": {
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/:id/twitter-threads",
+										"pathParams": [
+												"id"
+										]
+								},
+								"threadIndex": {
+										"delete": {
+												"type": "api",
+												"path": "/api/campaigns/:id/twitter-threads/:threadIndex",
+												"pathParams": [
+														"id",
+														"threadIndex"
+												]
+										},
+										"tweets": {
+												"post": {
+														"type": "api",
+														"path": "/api/campaigns/:id/twitter-threads/:threadIndex/tweets",
+														"pathParams": [
+																"id",
+																"threadIndex"
+														]
+												},
+												"reorder": {
+														"post": {
+																"type": "api",
+																"path": "/api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder",
+																"pathParams": [
+																		"id",
+																		"threadIndex"
+																]
+														}
+												},
+												"tweetIndex": {
+														"delete": {
+																"type": "api",
+																"path": "/api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex",
+																"pathParams": [
+																		"id",
+																		"threadIndex",
+																		"tweetIndex"
+																]
+														},
+														"patch": {
+																"type": "api",
+																"path": "/api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex",
+																"pathParams": [
+																		"id",
+																		"threadIndex",
+																		"tweetIndex"
+																]
+														}
+												}
+										}
+								}
+						}
+				},
+				"import": {
+						"post": {
+								"type": "api",
+								"path": "/api/campaigns/import"
+						}
+				},
+				"migrate": {
+						"post": {
+								"type": "api",
+								"path": "/api/campaigns/migrate"
+						}
+				},
+				"post": {
+						"type": "api",
+						"path": "/api/campaigns"
+				},
+				"trash": {
+						"get": {
+								"type": "api",
+								"path": "/api/campaigns/trash"
+						},
+						"purge": {
+								"post": {
+										"type": "api",
+										"path": "/api/campaigns/trash/purge"
+								}
 						}
 				}
 		},
@@ -223,6 +1425,70 @@ const _rpcRouteMetadata = {
 						"type": "api",
 						"path": "/api/chat"
 				}
+		},
+		"jobs": {
+				"get": {
+						"type": "api",
+						"path": "/api/jobs"
+				},
+				"id": {
+						"get": {
+								"type": "api",
+								"path": "/api/jobs/:id",
+								"pathParams": [
+										"id"
+								]
+						}
+				}
+		},
+		"keys": {
+				"get": {
+						"type": "api",
+						"path": "/api/keys"
+				},
+				"id": {
+						"delete": {
+								"type": "api",
+								"path": "/api/keys/:id",
+								"pathParams": [
+										"id"
+								]
+						}
+				},
+				"post": {
+						"type": "api",
+						"path": "/api/keys"
+				}
+		},
+		"openapi.json": {
+				"get": {
+						"type": "api",
+						"path": "/api/openapi.json"
+				}
+		},
+		"search": {
+				"get": {
+						"type": "api",
+						"path": "/api/search"
+				}
+		},
+		"webhooks": {
+				"typefully": {
+						"post": {
+								"type": "api",
+								"path": "/api/webhooks/typefully"
+						}
+				}
+		},
+		"workspace": {
+				"get": {
+						"type": "api",
+						"path": "/api/workspace"
+				},
+				"put": {
+						"type": "api",
+						"path": "/api/workspace"
+				}
 		}
 } as const;
 
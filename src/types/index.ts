@@ -31,6 +31,17 @@ export const ResearchResultsSchema = z.object({
 
 export type ResearchResults = z.infer<typeof ResearchResultsSchema>;
 
+/**
+ * Human review of a LinkedIn post or Twitter thread; items without one are pending
+ */
+export const ReviewSchema = z.object({
+	status: z.enum(["pending", "approved", "rejected"]),
+	reason: z.string().optional(),
+	reviewedAt: z.string().optional(),
+});
+
+export type Review = z.infer<typeof ReviewSchema>;
+
 /**
  * Social media post
  */
@@ -40,6 +51,8 @@ export const PostSchema = z.object({
 	media: z.array(z.string()).optional(),
 	scheduledDate: z.string().optional(),
 	typefullyId: z.string().optional(),
+	// Set on LinkedIn posts; tweets are reviewed as part of their thread
+	review: ReviewSchema.optional(),
 });
 
 export type Post = z.infer<typeof PostSchema>;
@@ -51,6 +64,7 @@ export const ThreadSchema = z.object({
 	tweets: z.array(PostSchema),
 	scheduledDate: z.string().optional(),
 	typefullyId: z.string().optional(),
+	review: ReviewSchema.optional(),
 });
 
 export type Thread = z.infer<typeof ThreadSchema>;
@@ -74,30 +88,366 @@ export const SchedulingInfoSchema = z.object({
 		postId: z.string(),
 		typefullyId: z.string(),
 		scheduledDate: z.string(),
-		status: z.enum(["draft", "scheduled", "published", "failed"]),
+		status: z.enum(["draft", "scheduled", "published", "failed", "cancelled"]),
+		// Set from publish notifications sent to the webhook
+		publishedAt: z.string().optional(),
+		error: z.string().optional(),
 	})),
 });
 
 export type SchedulingInfo = z.infer<typeof SchedulingInfoSchema>;
 
+/**
+ * Pipeline checkpoint recorded on a campaign
+ *
+ * Checkpoints are keyed by step: "research", "linkedin", "twitter",
+ * or "draft:<postId>" for each Typefully draft.
+ */
+export const CheckpointSchema = z.object({
+	status: z.enum(["completed", "failed"]),
+	updatedAt: z.string(),
+	error: z.string().optional(),
+});
+
+export type Checkpoint = z.infer<typeof CheckpointSchema>;
+
+/**
+ * Brand settings the Copywriter follows for a workspace
+ */
+export const BrandSettingsSchema = z.object({
+	name: z.string().optional(),
+	voice: z.string().optional(),
+	audience: z.string().optional(),
+	guidelines: z.string().optional(),
+	hashtags: z.array(z.string()).optional(),
+});
+
+export type BrandSettings = z.infer<typeof BrandSettingsSchema>;
+
+/**
+ * Workspace owning a team's campaigns, brand settings and Typefully credentials
+ */
+export const WorkspaceSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	brand: BrandSettingsSchema.optional(),
+	typefullyApiKey: z.string().optional(),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+});
+
+export type Workspace = z.infer<typeof WorkspaceSchema>;
+
+/**
+ * Changes to a workspace's settings; a null Typefully API key removes it
+ */
+export const WorkspaceUpdateSchema = z.object({
+	name: z.string().trim().min(1).optional(),
+	brand: BrandSettingsSchema.optional(),
+	typefullyApiKey: z.string().min(1).nullable().optional(),
+});
+
+export type WorkspaceUpdate = z.infer<typeof WorkspaceUpdateSchema>;
+
+/**
+ * Role of an API key; each role can do everything the roles before it can
+ */
+export const ApiKeyRoleSchema = z.enum(["viewer", "editor", "admin"]);
+
+export type ApiKeyRole = z.infer<typeof ApiKeyRoleSchema>;
+
+/**
+ * API key as stored and listed; the key itself is only kept as a hash
+ */
+export const ApiKeySchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	role: ApiKeyRoleSchema,
+	/** Workspace the key acts in */
+	workspaceId: z.string(),
+	/** First characters of the key, to tell keys apart */
+	prefix: z.string(),
+	createdAt: z.string(),
+	revokedAt: z.string().optional(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+/**
+ * Request body for creating an API key
+ */
+export const ApiKeyCreateRequestSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	role: ApiKeyRoleSchema,
+});
+
+export type ApiKeyCreateRequest = z.infer<typeof ApiKeyCreateRequestSchema>;
+
 /**
  * Campaign object for the Content Marketing Agent Swarm
  */
 export const CampaignSchema = z.object({
 	id: z.string(),
+	workspaceId: z.string(),
 	topic: z.string(),
 	description: z.string().optional(),
 	publishDate: z.string().optional(),
+	source: z.string().optional(),
 	status: CampaignStatusSchema,
 	research: ResearchResultsSchema.optional(),
 	content: CampaignContentSchema.optional(),
 	schedulingInfo: SchedulingInfoSchema.optional(),
+	checkpoints: z.record(z.string(), CheckpointSchema).optional(),
+	// Only approved posts and threads are scheduled when set
+	requireApproval: z.boolean().optional(),
+	// ID of the campaign this one was cloned from
+	clonedFrom: z.string().optional(),
+	version: z.number().int().optional(),
+	deletedAt: z.string().optional(),
+	// Schema version of the stored record; see src/utils/campaign-migrations.ts
+	schemaVersion: z.number().int().optional(),
 	createdAt: z.string(),
 	updatedAt: z.string(),
 });
 
 export type Campaign = z.infer<typeof CampaignSchema>;
 
+/**
+ * How the Manager should handle a request that matches existing campaigns
+ */
+export const CampaignResolutionActionSchema = z.enum([
+	"create_new",
+	"reuse",
+	"regenerate",
+	"extend",
+]);
+
+export type CampaignResolutionAction = z.infer<typeof CampaignResolutionActionSchema>;
+
+export const CampaignResolutionSchema = z.object({
+	action: CampaignResolutionActionSchema,
+	campaignId: z.string().optional(),
+});
+
+export type CampaignResolution = z.infer<typeof CampaignResolutionSchema>;
+
+/**
+ * Saved revision of a campaign, with what changed and who changed it
+ */
+export const CampaignRevisionSchema = z.object({
+	campaignId: z.string(),
+	version: z.number(),
+	actor: z.string(),
+	timestamp: z.string(),
+	changes: z.array(z.object({
+		path: z.string(),
+		type: z.enum(["added", "removed", "changed"]),
+		before: z.unknown().optional(),
+		after: z.unknown().optional(),
+	})),
+	snapshot: CampaignSchema,
+});
+
+export type CampaignRevision = z.infer<typeof CampaignRevisionSchema>;
+
+/**
+ * Query parameters for listing campaigns
+ *
+ * `status` accepts a comma-separated list. Date ranges are inclusive; a bare
+ * date such as "2025-01-31" covers the whole day.
+ */
+export const CampaignListQuerySchema = z.object({
+	status: z.string().optional(),
+	createdFrom: z.string().optional(),
+	createdTo: z.string().optional(),
+	publishFrom: z.string().optional(),
+	publishTo: z.string().optional(),
+	tag: z.string().optional(),
+	platform: z.enum(["linkedin", "twitter"]).optional(),
+	sort: z.enum(["createdAt", "updatedAt", "publishDate"]).default("createdAt"),
+	order: z.enum(["asc", "desc"]).default("desc"),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	cursor: z.string().optional(),
+});
+
+export type CampaignListQuery = z.infer<typeof CampaignListQuerySchema>;
+
+/**
+ * Portable export of a campaign, for moving it between environments
+ *
+ * The campaign is checked against CampaignSchema (after upgrading older
+ * schema versions) when the bundle is imported, so it is only loosely typed here.
+ */
+export const CampaignBundleSchema = z.object({
+	bundleVersion: z.literal(1),
+	exportedAt: z.string(),
+	campaign: z.record(z.string(), z.unknown()),
+	renderings: z.object({
+		csv: z.string(),
+		markdown: z.string(),
+	}).optional(),
+});
+
+export type CampaignBundle = z.infer<typeof CampaignBundleSchema>;
+
+export const CampaignImportRequestSchema = z.union([
+	CampaignBundleSchema,
+	z.array(CampaignBundleSchema).min(1),
+]);
+
+export type CampaignImportRequest = z.infer<typeof CampaignImportRequestSchema>;
+
+/**
+ * Query parameters for full-text search
+ */
+export const SearchQuerySchema = z.object({
+	q: z.string().trim().min(1),
+	limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+
+/**
+ * A search hit, pointing to the part of a campaign that matched
+ *
+ * `postId` is set for posts and threads, `tweetIndex` for a tweet within a
+ * thread and `insightIndex` for a research key insight.
+ */
+export const SearchHitSchema = z.object({
+	campaignId: z.string(),
+	topic: z.string(),
+	field: z.enum(["topic", "description", "research", "linkedin", "twitter"]),
+	postId: z.string().optional(),
+	tweetIndex: z.number().optional(),
+	insightIndex: z.number().optional(),
+	score: z.number(),
+	snippet: z.string(),
+});
+
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+
+/**
+ * A LinkedIn post or tweet written through the API
+ */
+export const PostInputSchema = z.object({
+	content: z.string().trim().min(1),
+	media: z.array(z.string()).optional(),
+});
+
+export type PostInput = z.infer<typeof PostInputSchema>;
+
+/**
+ * A Twitter thread written through the API
+ */
+export const ThreadInputSchema = z.object({
+	tweets: z.array(PostInputSchema).min(1),
+});
+
+export type ThreadInput = z.infer<typeof ThreadInputSchema>;
+
+/**
+ * Request to create a campaign without going through the Manager
+ *
+ * Posts and threads given here are kept when the pipeline is resumed; only
+ * the missing steps are generated.
+ */
+export const CampaignCreateRequestSchema = z.object({
+	topic: z.string().trim().min(1),
+	description: z.string().optional(),
+	publishDate: z.string().optional(),
+	source: z.string().optional(),
+	requireApproval: z.boolean().optional(),
+	content: z.object({
+		linkedInPosts: z.array(PostInputSchema).default([]),
+		twitterThreads: z.array(ThreadInputSchema).default([]),
+	}).optional(),
+});
+
+export type CampaignCreateRequest = z.infer<typeof CampaignCreateRequestSchema>;
+
+/**
+ * Changes to a campaign's details; null clears an optional field
+ */
+export const CampaignUpdateRequestSchema = z.object({
+	topic: z.string().trim().min(1).optional(),
+	description: z.string().nullable().optional(),
+	publishDate: z.string().nullable().optional(),
+	source: z.string().nullable().optional(),
+	requireApproval: z.boolean().optional(),
+});
+
+export type CampaignUpdateRequest = z.infer<typeof CampaignUpdateRequestSchema>;
+
+/**
+ * Request to clone a campaign as a template
+ *
+ * A new `topic` has the Copywriter rewrite the content from the copied
+ * research. The publish date is either replaced with `publishDate` or moved by
+ * `shiftDays`.
+ */
+export const CampaignCloneRequestSchema = z.object({
+	topic: z.string().trim().min(1).optional(),
+	publishDate: z.string().optional(),
+	shiftDays: z.number().int().optional(),
+});
+
+export type CampaignCloneRequest = z.infer<typeof CampaignCloneRequestSchema>;
+
+/**
+ * Request to add a post, tweet or thread, at `position` or at the end
+ */
+export const PostCreateRequestSchema = PostInputSchema.extend({
+	position: z.number().int().min(0).optional(),
+});
+
+export type PostCreateRequest = z.infer<typeof PostCreateRequestSchema>;
+
+export const ThreadCreateRequestSchema = ThreadInputSchema.extend({
+	position: z.number().int().min(0).optional(),
+});
+
+export type ThreadCreateRequest = z.infer<typeof ThreadCreateRequestSchema>;
+
+export const PostUpdateRequestSchema = PostInputSchema.partial();
+
+export type PostUpdateRequest = z.infer<typeof PostUpdateRequestSchema>;
+
+/**
+ * New order of a list, as the current index of each item in its new position
+ */
+export const ReorderRequestSchema = z.object({
+	order: z.array(z.number().int().min(0)).min(1),
+});
+
+export type ReorderRequest = z.infer<typeof ReorderRequestSchema>;
+
+/**
+ * Request to rewrite one post or thread, e.g. with guidance "shorter, less salesy"
+ */
+export const RegenerateRequestSchema = z.object({
+	guidance: z.string().trim().max(1000).optional(),
+});
+
+export type RegenerateRequest = z.infer<typeof RegenerateRequestSchema>;
+
+export const RejectRequestSchema = z.object({
+	reason: z.string().trim().min(1),
+});
+
+export type RejectRequest = z.infer<typeof RejectRequestSchema>;
+
+/**
+ * Request to permanently delete campaigns from the trash
+ *
+ * Without campaignIds, every campaign past its retention period is purged.
+ */
+export const PurgeTrashRequestSchema = z.object({
+	campaignIds: z.array(z.string()).optional(),
+	cancelDrafts: z.boolean().optional(),
+});
+
+export type PurgeTrashRequest = z.infer<typeof PurgeTrashRequestSchema>;
+
 /**
  * Request to the Manager Agent
  */
@@ -106,10 +456,26 @@ export const ManagerRequestSchema = z.object({
 	description: z.string().optional(),
 	publishDate: z.string().optional(),
 	domain: z.string().optional(),
+	resolution: CampaignResolutionSchema.optional(),
+	// Hold new content for review instead of scheduling it straight away
+	requireApproval: z.boolean().optional(),
+	// Set from the request by the API; campaigns are created and matched in this workspace
+	workspaceId: z.string().optional(),
 });
 
 export type ManagerRequest = z.infer<typeof ManagerRequestSchema>;
 
+/**
+ * Input of the Manager Agent: a request, plus the background job it runs for when the API queued one
+ *
+ * The job is never taken from the request body, so callers cannot attach a run to another job.
+ */
+export const ManagerInputSchema = ManagerRequestSchema.extend({
+	jobId: z.string().optional(),
+});
+
+export type ManagerInput = z.infer<typeof ManagerInputSchema>;
+
 /**
  * Request to the Researcher Agent
  */
@@ -132,6 +498,14 @@ export const CopywriterRequestSchema = z.object({
 	description: z.string().optional(),
 	publishDate: z.string().optional(),
 	research: ResearchResultsSchema.optional(),
+	extend: z.boolean().optional(),
+	// false leaves the new content unscheduled and the campaign in its current status
+	schedule: z.boolean().optional(),
+	// Rewrite just this post or thread, following the guidance, instead of generating content
+	regenerate: z.object({
+		postId: z.string(),
+		guidance: z.string().optional(),
+	}).optional(),
 });
 
 export type CopywriterRequest = z.infer<typeof CopywriterRequestSchema>;
@@ -143,6 +517,12 @@ export const SchedulerRequestSchema = z.object({
 	campaignId: z.string(),
 	content: CampaignContentSchema,
 	publishDate: z.string().optional(),
+	// "cancel" removes the campaign's scheduled Typefully drafts instead of creating them;
+	// "replace" swaps the drafts of `postIds` for drafts of their current content.
+	// `postIds` also limits "cancel" to those posts, and makes "schedule" create
+	// drafts for just those posts without changing the campaign's status
+	action: z.enum(["schedule", "cancel", "replace"]).optional(),
+	postIds: z.array(z.string()).optional(),
 });
 
 export type SchedulerRequest = z.infer<typeof SchedulerRequestSchema>;
@@ -175,23 +555,14 @@ export const CampaignSummarySchema = z.object({
 export type CampaignSummary = z.infer<typeof CampaignSummarySchema>;
 
 /**
- * Manager Agent output
+ * Existing campaign that looks like a duplicate, with how similar it is and why
  */
-export const ManagerOutputSchema = z.discriminatedUnion("status", [
-	z.object({ error: z.string(), status: z.literal("error") }),
-	z.object({
-		existingCampaigns: z.array(CampaignSummarySchema),
-		message: z.string(),
-		status: z.literal("existing_found"),
-	}),
-	z.object({
-		message: z.string(),
-		status: z.literal("handoff"),
-		campaign: CampaignHandoffSchema,
-	}),
-]);
+export const CampaignMatchSchema = CampaignSummarySchema.extend({
+	similarity: z.number(),
+	reason: z.string(),
+});
 
-export type ManagerOutput = z.infer<typeof ManagerOutputSchema>;
+export type CampaignMatch = z.infer<typeof CampaignMatchSchema>;
 
 /**
  * Scheduler Agent output
@@ -201,6 +572,7 @@ export const SchedulerOutputSchema = z.discriminatedUnion("status", [
 	z.object({
 		campaignId: z.string(),
 		scheduledPosts: z.number(),
+		cancelledPosts: z.number().optional(),
 		message: z.string(),
 		status: z.literal("success"),
 	}),
@@ -222,3 +594,134 @@ export const CopywriterOutputSchema = z.discriminatedUnion("status", [
 ]);
 
 export type CopywriterOutput = z.infer<typeof CopywriterOutputSchema>;
+
+/**
+ * Researcher Agent output
+ */
+export const ResearcherOutputSchema = z.discriminatedUnion("status", [
+	z.object({ error: z.string(), status: z.literal("error") }),
+	z.object({
+		campaignId: z.string(),
+		message: z.string(),
+		research: ResearchResultsSchema,
+		status: z.literal("success"),
+		copywriterResult: CopywriterOutputSchema.optional(),
+	}),
+]);
+
+export type ResearcherOutput = z.infer<typeof ResearcherOutputSchema>;
+
+/**
+ * Manager Agent output
+ */
+export const ManagerOutputSchema = z.discriminatedUnion("status", [
+	z.object({ error: z.string(), status: z.literal("error") }),
+	z.object({
+		existingCampaigns: z.array(CampaignMatchSchema),
+		options: z.array(z.object({
+			action: CampaignResolutionActionSchema,
+			campaignId: z.string().optional(),
+			description: z.string(),
+		})),
+		message: z.string(),
+		status: z.literal("existing_found"),
+	}),
+	z.object({
+		message: z.string(),
+		status: z.literal("success"),
+		campaign: CampaignHandoffSchema,
+		research: ResearchResultsSchema.optional(),
+		copywriterResult: CopywriterOutputSchema.optional(),
+		schedulerResult: SchedulerOutputSchema.optional(),
+	}),
+]);
+
+export type ManagerOutput = z.infer<typeof ManagerOutputSchema>;
+
+/**
+ * Background job status
+ */
+export const JobStatusSchema = z.enum(["queued", "running", "completed", "failed"]);
+
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+/**
+ * Progress of the campaign pipeline behind a job
+ */
+export const JobProgressSchema = z.object({
+	stage: z.string(),
+	percent: z.number(),
+	nextStep: z.string().nullable(),
+});
+
+export type JobProgress = z.infer<typeof JobProgressSchema>;
+
+/**
+ * Background job running a chat request
+ */
+export const JobSchema = z.object({
+	id: z.string(),
+	status: JobStatusSchema,
+	request: ManagerRequestSchema,
+	campaignId: z.string().optional(),
+	progress: JobProgressSchema,
+	result: ManagerOutputSchema.optional(),
+	error: z.string().optional(),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+});
+
+export type Job = z.infer<typeof JobSchema>;
+
+/**
+ * Campaign progress event, streamed to clients as it happens
+ */
+export const CampaignEventSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: z.number(),
+		type: z.literal("status"),
+		status: CampaignStatusSchema,
+		timestamp: z.string(),
+	}),
+	z.object({
+		id: z.number(),
+		type: z.literal("post_generated"),
+		platform: z.enum(["linkedin", "twitter"]),
+		index: z.number(),
+		content: z.string(),
+		timestamp: z.string(),
+	}),
+	z.object({
+		id: z.number(),
+		type: z.literal("draft_scheduled"),
+		postId: z.string(),
+		typefullyId: z.string(),
+		scheduledDate: z.string(),
+		status: z.enum(["scheduled", "failed"]),
+		error: z.string().optional(),
+		timestamp: z.string(),
+	}),
+	z.object({
+		id: z.number(),
+		type: z.literal("publish_outcome"),
+		postId: z.string(),
+		typefullyId: z.string(),
+		status: z.enum(["published", "failed"]),
+		error: z.string().optional(),
+		timestamp: z.string(),
+	}),
+]);
+
+export type CampaignEvent = z.infer<typeof CampaignEventSchema>;
+
+/**
+ * Notification from the scheduling service that a draft was published or failed to publish
+ */
+export const PublishNotificationSchema = z.object({
+	typefullyId: z.string().min(1),
+	status: z.enum(["published", "failed"]),
+	publishedAt: z.string().optional(),
+	error: z.string().optional(),
+});
+
+export type PublishNotification = z.infer<typeof PublishNotificationSchema>;
@@ -0,0 +1,49 @@
+import type { StoreContext } from "../kv-store";
+
+const logger = {
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	fatal: () => {},
+	child: () => logger,
+};
+
+/**
+ * Build a store context whose KV store lives in memory, with a silent logger
+ *
+ * `stores` exposes the stored values by namespace, so tests can check what was written.
+ */
+export function createTestContext(): StoreContext & { stores: Map<string, Map<string, unknown>> } {
+	const stores = new Map<string, Map<string, unknown>>();
+
+	function getStore(name: string): Map<string, unknown> {
+		let store = stores.get(name);
+		if (!store) {
+			store = new Map();
+			stores.set(name, store);
+		}
+		return store;
+	}
+
+	const kv = {
+		async get(name: string, key: string) {
+			const store = getStore(name);
+			return store.has(key)
+				? { exists: true, data: structuredClone(store.get(key)) }
+				: { exists: false, data: undefined };
+		},
+		async set(name: string, key: string, value: unknown) {
+			getStore(name).set(key, structuredClone(value));
+		},
+		async delete(name: string, key: string) {
+			getStore(name).delete(key);
+		},
+		async getKeys(name: string) {
+			return [...getStore(name).keys()];
+		},
+	};
+
+	return { kv, logger, stores } as unknown as StoreContext & { stores: Map<string, Map<string, unknown>> };
+}
@@ -0,0 +1,245 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { ApiKey, ApiKeyCreateRequest, ApiKeyRole } from "../types";
+import type { StoreContext } from "./kv-store";
+import { DEFAULT_WORKSPACE_ID, bindRequestWorkspace, getRequestedWorkspaceId } from "./workspace-store";
+
+// Constants
+const API_KEYS_STORE = "api_keys";
+const API_KEY_PREFIX = "cmk_";
+const ROLE_RANK: Record<ApiKeyRole, number> = { viewer: 0, editor: 1, admin: 2 };
+const BOOTSTRAP_KEY_ID = "bootstrap";
+
+/**
+ * Header that carries an API key, as an alternative to `Authorization: Bearer <key>`
+ */
+export const API_KEY_HEADER = "X-API-Key";
+
+// Keys are stored by the hash of the key, so a lookup never needs the key itself
+interface StoredApiKey extends Omit<ApiKey, "workspaceId"> {
+	hash: string;
+	/** Missing on keys created before keys had workspaces */
+	workspaceId?: string;
+}
+
+interface AuthRequest {
+	method: string;
+	header(name: string): string | undefined;
+	query(name: string): string | undefined;
+}
+
+// What a key may do: its role, and its workspace unless it may act in any
+interface KeyGrant {
+	keyId: string;
+	role: ApiKeyRole;
+	workspaceId?: string;
+}
+
+/**
+ * Outcome of authorizing a request: the error to respond with, or the key and the workspace it acts in
+ */
+export type Authorization =
+	| { error: string; status: 400 | 401 | 403 }
+	| { keyId: string; workspaceId: string };
+
+// Request → ID of the verified API key it was authenticated with
+const requestKeyIds = new WeakMap<Request, string>();
+
+/**
+ * Hash an API key the way keys are stored
+ */
+export function hashApiKey(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
+function toApiKey(stored: StoredApiKey): ApiKey {
+	const { hash, ...apiKey } = stored;
+	// Keys created before keys had workspaces belong to the default one
+	return { ...apiKey, workspaceId: apiKey.workspaceId ?? DEFAULT_WORKSPACE_ID };
+}
+
+/**
+ * Read the API key of a request from the Authorization or X-API-Key header
+ */
+export function getRequestKey(req: Pick<AuthRequest, "header">): string | undefined {
+	const authorization = req.header("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+	return authorization ?? req.header(API_KEY_HEADER)?.trim() ?? undefined;
+}
+
+/**
+ * Check a key against ADMIN_API_KEY, which works as an admin key in every workspace
+ * without being stored, so the first keys can be created
+ */
+function isBootstrapKey(key: string): boolean {
+	const adminKey = process.env.ADMIN_API_KEY;
+	if (!adminKey) return false;
+
+	return timingSafeEqual(Buffer.from(hashApiKey(key), "hex"), Buffer.from(hashApiKey(adminKey), "hex"));
+}
+
+/**
+ * Get the role a request's method needs: viewers can read, and editors can change and remove content
+ *
+ * Routes that delete whole campaigns or manage the service ask for admin on top, with requireApiKey("admin").
+ */
+export function getRequiredRole(method: string): ApiKeyRole {
+	switch (method.toUpperCase()) {
+		case "GET":
+		case "HEAD":
+		case "OPTIONS":
+			return "viewer";
+		default:
+			return "editor";
+	}
+}
+
+/**
+ * Check whether a role includes another
+ */
+export function hasRole(role: ApiKeyRole, required: ApiKeyRole): boolean {
+	return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Create an API key for a workspace
+ * @returns The stored key and the key itself, which cannot be recovered later
+ */
+export async function createApiKey(
+	ctx: StoreContext,
+	workspaceId: string,
+	request: ApiKeyCreateRequest,
+): Promise<{ apiKey: ApiKey; key: string }> {
+	const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+	const stored: StoredApiKey = {
+		id: `key-${crypto.randomUUID()}`,
+		name: request.name,
+		role: request.role,
+		workspaceId,
+		prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+		createdAt: new Date().toISOString(),
+		hash: hashApiKey(key),
+	};
+
+	await ctx.kv.set(API_KEYS_STORE, stored.hash, JSON.parse(JSON.stringify(stored)));
+	ctx.logger.info("API key created: %s (%s in %s)", stored.id, stored.role, workspaceId);
+
+	return { apiKey: toApiKey(stored), key };
+}
+
+async function listStoredApiKeys(ctx: StoreContext, workspaceId: string): Promise<StoredApiKey[]> {
+	const hashes = await ctx.kv.getKeys(API_KEYS_STORE);
+	const results = await Promise.all(hashes.map((hash) => ctx.kv.get(API_KEYS_STORE, hash)));
+
+	return results
+		.map((result) => result?.data as unknown as StoredApiKey | undefined)
+		.filter((stored): stored is StoredApiKey => Boolean(stored))
+		.filter((stored) => (stored.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId);
+}
+
+/**
+ * List a workspace's API keys, newest first, including revoked ones
+ */
+export async function listApiKeys(ctx: StoreContext, workspaceId: string): Promise<ApiKey[]> {
+	const keys = await listStoredApiKeys(ctx, workspaceId);
+	return keys.map(toApiKey).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revoke one of a workspace's API keys so it can no longer be used
+ * @returns The revoked key, or null if the workspace has no key with this ID
+ */
+export async function revokeApiKey(ctx: StoreContext, workspaceId: string, id: string): Promise<ApiKey | null> {
+	const stored = (await listStoredApiKeys(ctx, workspaceId)).find((key) => key.id === id);
+	if (!stored) return null;
+
+	if (!stored.revokedAt) {
+		stored.revokedAt = new Date().toISOString();
+		await ctx.kv.set(API_KEYS_STORE, stored.hash, JSON.parse(JSON.stringify(stored)));
+		ctx.logger.info("API key revoked: %s", id);
+	}
+
+	return toApiKey(stored);
+}
+
+/**
+ * Find what a key may do, or null if the key is unknown or revoked
+ */
+async function getKeyGrant(ctx: StoreContext, key: string): Promise<KeyGrant | null> {
+	if (isBootstrapKey(key)) return { keyId: BOOTSTRAP_KEY_ID, role: "admin" };
+
+	const result = await ctx.kv.get(API_KEYS_STORE, hashApiKey(key));
+	const stored = result?.data as unknown as StoredApiKey | undefined;
+	if (!stored || stored.revokedAt) return null;
+
+	return { keyId: stored.id, role: stored.role, workspaceId: stored.workspaceId ?? DEFAULT_WORKSPACE_ID };
+}
+
+/**
+ * Check that a request carries an API key with the role it needs, and find its workspace
+ *
+ * A key acts in its own workspace; a request that names another one is refused.
+ * The bootstrap admin key acts in the workspace the request names.
+ * @param minRole A role the request needs regardless of its method
+ */
+export async function authorizeRequest(
+	ctx: StoreContext,
+	req: AuthRequest,
+	minRole: ApiKeyRole = "viewer",
+): Promise<Authorization> {
+	const key = getRequestKey(req);
+	if (!key) {
+		return { error: "API key required", status: 401 };
+	}
+
+	const grant = await getKeyGrant(ctx, key);
+	if (!grant) {
+		return { error: "Invalid or revoked API key", status: 401 };
+	}
+
+	const methodRole = getRequiredRole(req.method);
+	const required = hasRole(methodRole, minRole) ? methodRole : minRole;
+	if (!hasRole(grant.role, required)) {
+		return { error: `This request needs the ${required} role; this key is ${grant.role}`, status: 403 };
+	}
+
+	const requested = getRequestedWorkspaceId(req);
+	if (requested === null) {
+		return { error: "Invalid workspace ID", status: 400 };
+	}
+	if (grant.workspaceId && requested !== undefined && requested !== grant.workspaceId) {
+		return { error: `This API key belongs to workspace ${grant.workspaceId}`, status: 403 };
+	}
+
+	return { keyId: grant.keyId, workspaceId: grant.workspaceId ?? requested ?? DEFAULT_WORKSPACE_ID };
+}
+
+/**
+ * Route middleware that rejects requests without an API key of the role they need,
+ * and binds the others to the key's workspace
+ * @param minRole A role every request needs regardless of its method
+ */
+export function requireApiKey(minRole?: ApiKeyRole) {
+	return async (
+		c: {
+			var: StoreContext;
+			req: AuthRequest & { raw: Request };
+			json(body: { error: string }, status: 400 | 401 | 403): Response;
+		},
+		next: () => Promise<void>,
+	) => {
+		const authorization = await authorizeRequest(c.var, c.req, minRole);
+		if ("error" in authorization) {
+			return c.json({ error: authorization.error }, authorization.status);
+		}
+
+		bindRequestWorkspace(c.req.raw, authorization.workspaceId);
+		requestKeyIds.set(c.req.raw, authorization.keyId);
+		await next();
+	};
+}
+
+/**
+ * Get the ID of the API key a request was authenticated with by requireApiKey
+ */
+export function getAuthenticatedKeyId(raw: Request): string | undefined {
+	return requestKeyIds.get(raw);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { CURRENT_SCHEMA_VERSION, CampaignMigrationError, migrateCampaignRecord } from "./campaign-migrations";
+
+const baseRecord = {
+	id: "campaign-1",
+	topic: "Pricing pages",
+	status: "writing",
+	createdAt: "2025-01-01T00:00:00.000Z",
+	updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("migrateCampaignRecord", () => {
+	test("upgrades a version 1 record with partial content", () => {
+		const campaign = migrateCampaignRecord({
+			...baseRecord,
+			content: { linkedInPosts: [{ platform: "linkedin", content: "Post" }] },
+			schedulingInfo: {},
+			checkpoints: null,
+		});
+
+		expect(campaign.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+		expect(campaign.workspaceId).toBe("default");
+		expect(campaign.content?.twitterThreads).toEqual([]);
+		expect(campaign.schedulingInfo?.scheduledPosts).toEqual([]);
+		expect(campaign.checkpoints).toBeUndefined();
+	});
+
+	test("puts version 2 records without a workspace in the default workspace", () => {
+		expect(migrateCampaignRecord({ ...baseRecord, schemaVersion: 2 }).workspaceId).toBe("default");
+		expect(migrateCampaignRecord({ ...baseRecord, schemaVersion: 2, workspaceId: "acme" }).workspaceId).toBe("acme");
+	});
+
+	test("does not change the record it was given", () => {
+		const record = { ...baseRecord };
+		migrateCampaignRecord(record);
+
+		expect(record).toEqual(baseRecord);
+	});
+
+	test("refuses a record that does not match the campaign schema, listing the issues", () => {
+		const error = (() => {
+			try {
+				migrateCampaignRecord({ ...baseRecord, status: "archived", topic: undefined });
+			} catch (e) {
+				return e;
+			}
+		})();
+
+		expect(error).toBeInstanceOf(CampaignMigrationError);
+		expect((error as CampaignMigrationError).campaignId).toBe("campaign-1");
+		expect((error as CampaignMigrationError).issues).toEqual([
+			expect.stringContaining("topic"),
+			expect.stringContaining("status"),
+		]);
+	});
+
+	test("refuses records from a newer schema and records that are not objects", () => {
+		expect(() => migrateCampaignRecord({ ...baseRecord, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+			CampaignMigrationError,
+		);
+		expect(() => migrateCampaignRecord(null)).toThrow(CampaignMigrationError);
+		expect(() => migrateCampaignRecord([baseRecord])).toThrow(CampaignMigrationError);
+	});
+});
@@ -0,0 +1,113 @@
+import { type Campaign, CampaignSchema } from "../types";
+import { DEFAULT_WORKSPACE_ID } from "./workspace-store";
+
+/**
+ * Schema version written to every saved campaign
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// A stored campaign record before it has been validated
+type CampaignRecord = Record<string, unknown>;
+
+/**
+ * Upgrades for stored campaign records, keyed by the schema version they upgrade from
+ *
+ * Each migration receives a copy of a record at that version and returns the
+ * record at the next version. Add a migration here and bump
+ * CURRENT_SCHEMA_VERSION whenever a change to CampaignSchema would reject or
+ * misread records that are already stored.
+ */
+const migrations: Record<number, (record: CampaignRecord) => CampaignRecord> = {
+	// Version 1 records predate schema versioning; partially written ones can lack
+	// a platform's post list or the scheduled post list
+	1: (record) => {
+		const content = record.content as CampaignRecord | undefined;
+		if (content) {
+			content.linkedInPosts ??= [];
+			content.twitterThreads ??= [];
+		}
+
+		const schedulingInfo = record.schedulingInfo as CampaignRecord | undefined;
+		if (schedulingInfo) {
+			schedulingInfo.scheduledPosts ??= [];
+		}
+
+		if (record.checkpoints === null) {
+			delete record.checkpoints;
+		}
+
+		return record;
+	},
+
+	// Campaigns created before workspaces belong to the default workspace
+	2: (record) => {
+		record.workspaceId ??= DEFAULT_WORKSPACE_ID;
+		return record;
+	},
+};
+
+/**
+ * Thrown when a stored campaign record cannot be upgraded to the current schema
+ */
+export class CampaignMigrationError extends Error {
+	constructor(
+		public readonly campaignId: string,
+		message: string,
+		public readonly issues: string[] = [],
+	) {
+		super(issues.length > 0 ? `${message}: ${issues.join("; ")}` : message);
+		this.name = "CampaignMigrationError";
+	}
+}
+
+/**
+ * Get the schema version of a stored record; records without one are version 1
+ */
+export function getSchemaVersion(record: { schemaVersion?: unknown }): number {
+	return typeof record.schemaVersion === "number" ? record.schemaVersion : 1;
+}
+
+/**
+ * Upgrade a stored campaign record to the current schema and validate it
+ * @throws CampaignMigrationError when the record cannot be upgraded or does not match CampaignSchema
+ */
+export function migrateCampaignRecord(record: unknown): Campaign {
+	if (typeof record !== "object" || record === null || Array.isArray(record)) {
+		throw new CampaignMigrationError("unknown", "Stored campaign record is not an object");
+	}
+
+	let current: CampaignRecord = JSON.parse(JSON.stringify(record));
+	const campaignId = typeof current.id === "string" ? current.id : "unknown";
+	let version = getSchemaVersion(current);
+
+	if (version > CURRENT_SCHEMA_VERSION) {
+		throw new CampaignMigrationError(
+			campaignId,
+			`Campaign ${campaignId} has schema version ${version}, newer than supported version ${CURRENT_SCHEMA_VERSION}`,
+		);
+	}
+
+	while (version < CURRENT_SCHEMA_VERSION) {
+		const migrate = migrations[version];
+		if (!migrate) {
+			throw new CampaignMigrationError(
+				campaignId,
+				`No migration from schema version ${version} for campaign ${campaignId}`,
+			);
+		}
+
+		current = migrate(current);
+		version++;
+	}
+
+	const result = CampaignSchema.safeParse({ ...current, schemaVersion: CURRENT_SCHEMA_VERSION });
+	if (!result.success) {
+		throw new CampaignMigrationError(
+			campaignId,
+			`Campaign ${campaignId} does not match the campaign schema`,
+			result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+		);
+	}
+
+	return result.data;
+}
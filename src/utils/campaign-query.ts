@@ -0,0 +1,181 @@
+import { type Campaign, type CampaignListQuery, type CampaignStatus, CampaignStatusSchema } from "../types";
+import { type CampaignIndexEntry, getCampaignRepository } from "./campaign-repository";
+import type { StoreContext } from "./kv-store";
+
+/**
+ * Thrown when list query parameters or a cursor are invalid
+ */
+export class CampaignQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CampaignQueryError";
+	}
+}
+
+/**
+ * One page of campaigns
+ */
+export interface CampaignPage {
+	campaigns: Campaign[];
+	/** Pass as `cursor` to get the next page; null on the last page */
+	nextCursor: string | null;
+	/** Number of campaigns matching the filters across all pages */
+	total: number;
+}
+
+// Position of a campaign in the sort order; campaigns without a value sort last
+interface SortPosition {
+	value: string | null;
+	id: string;
+}
+
+// Data encoded in a cursor
+interface Cursor extends SortPosition {
+	sort: CampaignListQuery["sort"];
+	order: CampaignListQuery["order"];
+}
+
+/**
+ * Parse a date filter into an ISO timestamp
+ * @param endOfDay Whether a bare date should cover the whole day, for inclusive upper bounds
+ */
+function parseDateFilter(name: string, value: string | undefined, endOfDay = false): string | undefined {
+	if (!value) return undefined;
+
+	const isBareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	const date = new Date(isBareDate && endOfDay ? `${value}T23:59:59.999Z` : value);
+
+	if (Number.isNaN(date.getTime())) {
+		throw new CampaignQueryError(`Invalid date for ${name}: ${value}`);
+	}
+	return date.toISOString();
+}
+
+/**
+ * Parse the comma-separated status filter
+ */
+function parseStatusFilter(value: string | undefined): CampaignStatus[] | undefined {
+	if (!value) return undefined;
+
+	const statuses = value.split(",").map((status) => status.trim()).filter(Boolean);
+	const unknown = statuses.filter((status) => !CampaignStatusSchema.options.includes(status as never));
+
+	if (unknown.length > 0) {
+		throw new CampaignQueryError(`Unknown status: ${unknown.join(", ")}`);
+	}
+	return statuses as CampaignStatus[];
+}
+
+function encodeCursor(cursor: Cursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string, query: CampaignListQuery): Cursor {
+	let cursor: Cursor;
+	try {
+		cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+	} catch {
+		throw new CampaignQueryError("Invalid cursor");
+	}
+
+	if (typeof cursor?.id !== "string") {
+		throw new CampaignQueryError("Invalid cursor");
+	}
+	if (cursor.sort !== query.sort || cursor.order !== query.order) {
+		throw new CampaignQueryError("Cursor was created for a different sort order");
+	}
+	return cursor;
+}
+
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two sort positions, breaking ties by ID so the order is stable
+ */
+function comparePositions(a: SortPosition, b: SortPosition, order: CampaignListQuery["order"]): number {
+	if ((a.value === null) !== (b.value === null)) {
+		return a.value === null ? 1 : -1;
+	}
+
+	const direction = order === "asc" ? 1 : -1;
+	return (
+		(compareStrings(a.value ?? "", b.value ?? "") || compareStrings(a.id, b.id)) * direction
+	);
+}
+
+function getSortPosition(entry: CampaignIndexEntry, sort: CampaignListQuery["sort"]): SortPosition {
+	const value = sort === "publishDate" ? entry.publishAt : entry[sort];
+	return { value: value ?? null, id: entry.id };
+}
+
+/**
+ * List a workspace's campaigns matching a query, one page at a time
+ *
+ * Filtering and sorting run on the status index entries of the workspace, for
+ * the requested statuses only; only the campaigns on the requested page are
+ * loaded. Trashed campaigns are never included.
+ * @throws CampaignQueryError when a filter or the cursor is invalid
+ */
+export async function queryCampaigns(
+	ctx: StoreContext,
+	workspaceId: string,
+	query: CampaignListQuery,
+): Promise<CampaignPage> {
+	const statuses = parseStatusFilter(query.status);
+	const createdFrom = parseDateFilter("createdFrom", query.createdFrom);
+	const createdTo = parseDateFilter("createdTo", query.createdTo, true);
+	const publishFrom = parseDateFilter("publishFrom", query.publishFrom);
+	const publishTo = parseDateFilter("publishTo", query.publishTo, true);
+	const tag = query.tag?.trim().toLowerCase();
+	const cursor = query.cursor ? decodeCursor(query.cursor, query) : undefined;
+
+	const repository = getCampaignRepository(ctx);
+	const entries = await repository.listEntriesByStatus(workspaceId, statuses ?? CampaignStatusSchema.options);
+
+	const matches = entries
+		.filter((entry) => {
+			if (createdFrom && entry.createdAt < createdFrom) return false;
+			if (createdTo && entry.createdAt > createdTo) return false;
+			if ((publishFrom || publishTo) && !entry.publishAt) return false;
+			if (publishFrom && entry.publishAt && entry.publishAt < publishFrom) return false;
+			if (publishTo && entry.publishAt && entry.publishAt > publishTo) return false;
+			if (tag && !entry.tags.some((t) => t.toLowerCase() === tag)) return false;
+			if (query.platform && !entry.platforms.includes(query.platform)) return false;
+			return true;
+		})
+		.sort((a, b) =>
+			comparePositions(getSortPosition(a, query.sort), getSortPosition(b, query.sort), query.order),
+		);
+
+	// Resume after the last campaign of the previous page, even if it has since been deleted
+	const remaining = cursor
+		? matches.filter(
+				(entry) => comparePositions(getSortPosition(entry, query.sort), cursor, query.order) > 0,
+			)
+		: matches;
+
+	const page = remaining.slice(0, query.limit);
+	const campaigns = await Promise.all(page.map((entry) => repository.get(entry.id)));
+	// An entry can lag behind a concurrent save; leave out campaigns that have since moved away
+	const current = campaigns.filter(
+		(campaign): campaign is Campaign =>
+			campaign !== null &&
+			campaign.workspaceId === workspaceId &&
+			!campaign.deletedAt &&
+			(!statuses || statuses.includes(campaign.status)),
+	);
+
+	const last = page.at(-1);
+	const nextCursor =
+		last && remaining.length > page.length
+			? encodeCursor({ ...getSortPosition(last, query.sort), sort: query.sort, order: query.order })
+			: null;
+
+	return {
+		campaigns: current,
+		nextCursor,
+		total: matches.length,
+	};
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { Campaign, CampaignRevision } from "../types";
+import { createTestContext } from "./__fixtures__/store-context";
+import {
+	CampaignConflictError,
+	type CampaignRepository,
+	createKVCampaignRepository,
+	createMemoryCampaignRepository,
+} from "./campaign-repository";
+
+function makeCampaign(overrides: Partial<Campaign> = {}): Campaign {
+	return {
+		id: `campaign-${crypto.randomUUID()}`,
+		workspaceId: "default",
+		topic: "Pricing pages that convert",
+		status: "planning",
+		createdAt: "2025-01-01T00:00:00.000Z",
+		updatedAt: "2025-01-01T00:00:00.000Z",
+		...overrides,
+	};
+}
+
+function makeRevision(campaign: Campaign, version: number): CampaignRevision {
+	return {
+		campaignId: campaign.id,
+		version,
+		actor: "api",
+		timestamp: campaign.updatedAt,
+		changes: [],
+		snapshot: { ...campaign, version },
+	};
+}
+
+const implementations: [string, () => CampaignRepository][] = [
+	["memory", () => createMemoryCampaignRepository()],
+	["kv", () => createKVCampaignRepository(createTestContext().kv)],
+];
+
+describe.each(implementations)("%s campaign repository", (_name, createRepository) => {
+	let repository: CampaignRepository;
+
+	beforeEach(() => {
+		repository = createRepository();
+	});
+
+	afterEach(() => {
+		delete process.env.CAMPAIGN_REVISION_LIMIT;
+	});
+
+	test("saves new campaigns at version 1 and increments the version on each save", async () => {
+		const campaign = makeCampaign();
+
+		expect(await repository.save(campaign)).toBe(1);
+		expect(await repository.save({ ...campaign, version: 1, topic: "Changed" })).toBe(2);
+
+		const stored = await repository.get(campaign.id);
+		expect(stored?.version).toBe(2);
+		expect(stored?.topic).toBe("Changed");
+	});
+
+	test("refuses a save based on an outdated version", async () => {
+		const campaign = makeCampaign();
+		await repository.save(campaign);
+		await repository.save({ ...campaign, version: 1 });
+
+		const error = await repository.save({ ...campaign, version: 1 }).catch((e) => e);
+		expect(error).toBeInstanceOf(CampaignConflictError);
+		expect(error.expectedVersion).toBe(1);
+		expect(error.actualVersion).toBe(2);
+		expect((await repository.get(campaign.id))?.version).toBe(2);
+	});
+
+	test("refuses to create a campaign whose ID is taken", async () => {
+		const campaign = makeCampaign();
+		await repository.save(campaign);
+
+		await expect(repository.save({ ...campaign, topic: "Other" })).rejects.toBeInstanceOf(CampaignConflictError);
+	});
+
+	test("lists a workspace's campaigns by status, without trashed ones", async () => {
+		const planning = makeCampaign();
+		const active = makeCampaign({ status: "active" });
+		const trashed = makeCampaign({ status: "active", deletedAt: "2025-01-02T00:00:00.000Z" });
+		const otherWorkspace = makeCampaign({ status: "active", workspaceId: "acme" });
+		for (const campaign of [planning, active, trashed, otherWorkspace]) {
+			await repository.save(campaign);
+		}
+
+		const entries = await repository.listEntriesByStatus("default", ["active"]);
+		expect(entries.map((entry) => entry.id)).toEqual([active.id]);
+
+		const both = await repository.listEntriesByStatus("default", ["planning", "active"]);
+		expect(both.map((entry) => entry.id).sort()).toEqual([planning.id, active.id].sort());
+	});
+
+	test("moves a campaign between statuses in the status listing", async () => {
+		const campaign = makeCampaign();
+		await repository.save(campaign);
+		await repository.save({ ...campaign, version: 1, status: "active", updatedAt: "2025-01-02T00:00:00.000Z" });
+
+		expect(await repository.listEntriesByStatus("default", ["planning"])).toEqual([]);
+		const [entry] = await repository.listEntriesByStatus("default", ["active"]);
+		expect(entry?.id).toBe(campaign.id);
+		expect(entry?.updatedAt).toBe("2025-01-02T00:00:00.000Z");
+	});
+
+	test("changes the workspace's change marker on save and delete", async () => {
+		const campaign = makeCampaign();
+		const initial = await repository.getChangeMarker("default");
+
+		await repository.save(campaign);
+		const afterSave = await repository.getChangeMarker("default");
+		expect(afterSave).not.toBe(initial);
+
+		await repository.delete(campaign.id);
+		expect(await repository.getChangeMarker("default")).not.toBe(afterSave);
+	});
+
+	test("keeps only the most recent revisions up to CAMPAIGN_REVISION_LIMIT", async () => {
+		process.env.CAMPAIGN_REVISION_LIMIT = "3";
+		const campaign = makeCampaign();
+
+		for (let version = 1; version <= 5; version++) {
+			await repository.save({ ...campaign, version: version - 1 });
+			await repository.addRevision(makeRevision(campaign, version));
+		}
+
+		const revisions = await repository.listRevisions(campaign.id);
+		expect(revisions.map((revision) => revision.version)).toEqual([3, 4, 5]);
+	});
+
+	test("removes a deleted campaign and its revisions", async () => {
+		const campaign = makeCampaign();
+		await repository.save(campaign);
+		await repository.addRevision(makeRevision(campaign, 1));
+
+		await repository.delete(campaign.id);
+
+		expect(await repository.get(campaign.id)).toBeNull();
+		expect(await repository.listIds()).not.toContain(campaign.id);
+		expect(await repository.listRevisions(campaign.id)).toEqual([]);
+	});
+});
+
+describe("kv campaign repository", () => {
+	afterEach(() => {
+		delete process.env.CAMPAIGN_REVISION_LIMIT;
+	});
+
+	test("prunes revisions below the kept range even when versions were skipped", async () => {
+		process.env.CAMPAIGN_REVISION_LIMIT = "3";
+		const ctx = createTestContext();
+		const repository = createKVCampaignRepository(ctx.kv);
+		const campaign = makeCampaign();
+
+		// Revisions 3 to 7 are never recorded, as when saves fail to record a revision
+		for (const version of [1, 2, 8, 9]) {
+			await repository.addRevision(makeRevision(campaign, version));
+		}
+
+		const keys = [...(ctx.stores.get("campaign_revisions")?.keys() ?? [])];
+		expect(keys.filter((key) => !key.endsWith(":pruned")).sort()).toEqual([
+			`${campaign.id}:8`,
+			`${campaign.id}:9`,
+		]);
+	});
+});
@@ -0,0 +1,714 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { AgentContext, AppState } from "@agentuity/runtime";
+import type { Campaign, CampaignRevision, CampaignStatus, Post } from "../types";
+import {
+	CURRENT_SCHEMA_VERSION,
+	getSchemaVersion,
+	migrateCampaignRecord,
+} from "./campaign-migrations";
+import { DEFAULT_WORKSPACE_ID } from "./workspace-store";
+
+type KeyValueStorage = AgentContext<any, unknown, AppState>["kv"];
+
+// Constants
+const CAMPAIGNS_STORE = "campaigns";
+const CAMPAIGNS_INDEX_KEY = "campaigns_index";
+const CAMPAIGNS_INDEX_STORE = "campaigns_meta";
+// One key per campaign, so concurrent writers never overwrite each other's entries
+const CAMPAIGNS_INDEX_ENTRIES_STORE = "campaigns_index_entries";
+// Secondary index with one store per workspace and status, named `<prefix>:<workspaceId>:<status>`.
+// Each key holds what lists filter and sort on, so listing a status reads its keys and nothing else
+const CAMPAIGNS_BY_STATUS_STORE_PREFIX = "campaigns_by_status";
+// Marks that the status index has been built for campaigns saved before it existed
+const STATUS_INDEX_READY_KEY = "status_index_ready";
+const CHANGE_MARKER_KEY_PREFIX = "changed";
+// One key per revision, named `<campaignId>:<version>`, so a campaign's history
+// is read from its own keys by version, without listing the whole store
+const CAMPAIGN_REVISIONS_STORE = "campaign_revisions";
+const DEFAULT_FILE_PATH = ".data/campaigns.json";
+const DEFAULT_REVISION_LIMIT = 50;
+
+/**
+ * Thrown when a campaign was changed by someone else since it was read
+ */
+export class CampaignConflictError extends Error {
+	constructor(
+		public readonly campaignId: string,
+		public readonly expectedVersion: number,
+		public readonly actualVersion: number,
+	) {
+		super(
+			`Campaign ${campaignId} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+		);
+		this.name = "CampaignConflictError";
+	}
+}
+
+/**
+ * Summary of a campaign kept in the index, used to filter and sort campaigns
+ * without loading every full record
+ */
+export interface CampaignIndexEntry {
+	id: string;
+	workspaceId: string;
+	status: CampaignStatus;
+	createdAt: string;
+	updatedAt: string;
+	/** Publish date as an ISO timestamp, when the campaign's publish date can be parsed */
+	publishAt?: string;
+	tags: string[];
+	platforms: Post["platform"][];
+	trashed: boolean;
+	/** Schema version of the stored record, to find records that need migrating */
+	schemaVersion: number;
+}
+
+/**
+ * Storage for campaign records and the index of campaign IDs
+ */
+export interface CampaignRepository {
+	/**
+	 * Get a campaign by ID, or null when it does not exist
+	 *
+	 * Records stored with an older schema are upgraded and validated on read.
+	 * @throws CampaignMigrationError when the stored record cannot be upgraded
+	 */
+	get(id: string): Promise<Campaign | null>;
+	/**
+	 * Create or replace a campaign and make sure it is indexed
+	 *
+	 * The campaign's `version` must match the stored version (0 for new campaigns),
+	 * otherwise a CampaignConflictError is thrown.
+	 * @returns The new version of the saved campaign
+	 */
+	save(campaign: Campaign): Promise<number>;
+	/** Remove a campaign, its index entry and its revision history */
+	delete(id: string): Promise<void>;
+	/** List the IDs of all indexed campaigns */
+	listIds(): Promise<string[]>;
+	/** List the index entries of all campaigns */
+	listIndexEntries(): Promise<CampaignIndexEntry[]>;
+	/**
+	 * List the index entries of a workspace's campaigns in some statuses, without trashed ones
+	 *
+	 * Entries come from a secondary index, so other statuses and workspaces are not read.
+	 * An entry may briefly lag behind a concurrent save of its campaign.
+	 */
+	listEntriesByStatus(workspaceId: string, statuses: CampaignStatus[]): Promise<CampaignIndexEntry[]>;
+	/**
+	 * Get a marker that changes whenever one of a workspace's campaigns is saved or deleted,
+	 * so caches of the workspace know when to refresh
+	 * @returns The marker, or null when the repository cannot tell and callers should always refresh
+	 */
+	getChangeMarker(workspaceId: string): Promise<string | null>;
+	/** Record a revision of a campaign, dropping revisions beyond the revision limit */
+	addRevision(revision: CampaignRevision): Promise<void>;
+	/** List a campaign's kept revisions, oldest first */
+	listRevisions(campaignId: string): Promise<CampaignRevision[]>;
+}
+
+// Structure of the legacy single-list campaign index
+interface CampaignIndex {
+	campaignIds: string[];
+}
+
+/**
+ * Number of revisions kept per campaign, from CAMPAIGN_REVISION_LIMIT
+ */
+export function getRevisionLimit(): number {
+	const limit = Number.parseInt(process.env.CAMPAIGN_REVISION_LIMIT || "", 10);
+	return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_REVISION_LIMIT;
+}
+
+/**
+ * Make a detached, JSON-compatible copy of a campaign
+ */
+function cloneCampaign(campaign: Campaign): Campaign {
+	return JSON.parse(JSON.stringify(campaign));
+}
+
+/**
+ * Make the record to store for a campaign at a new version
+ */
+function toStoredCampaign(campaign: Campaign, version: number): Campaign {
+	return { ...cloneCampaign(campaign), version, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+/**
+ * Build the index entry for a campaign
+ *
+ * Also accepts stored records that have not been migrated yet.
+ */
+export function toIndexEntry(campaign: Campaign): CampaignIndexEntry {
+	const publishTime = campaign.publishDate ? new Date(campaign.publishDate).getTime() : Number.NaN;
+	const platforms: Post["platform"][] = [];
+	if (campaign.content?.linkedInPosts?.length) platforms.push("linkedin");
+	if (campaign.content?.twitterThreads?.length) platforms.push("twitter");
+
+	return {
+		id: campaign.id,
+		workspaceId: campaign.workspaceId ?? DEFAULT_WORKSPACE_ID,
+		status: campaign.status,
+		createdAt: campaign.createdAt,
+		updatedAt: campaign.updatedAt,
+		publishAt: Number.isNaN(publishTime) ? undefined : new Date(publishTime).toISOString(),
+		tags: campaign.research?.tags ?? [],
+		platforms,
+		trashed: Boolean(campaign.deletedAt),
+		schemaVersion: getSchemaVersion(campaign),
+	};
+}
+
+/**
+ * Get the store of the status index that lists a workspace's campaigns in a status
+ */
+function getStatusIndexStore(workspaceId: string, status: CampaignStatus): string {
+	return `${CAMPAIGNS_BY_STATUS_STORE_PREFIX}:${workspaceId}:${status}`;
+}
+
+// Fields of an index entry kept in its status index key, in order
+type StatusIndexKey = [
+	id: string,
+	createdAt: string,
+	updatedAt: string,
+	publishAt: string | null,
+	platforms: Post["platform"][],
+	tags: string[],
+	schemaVersion: number,
+];
+
+/**
+ * Build the status index key of an index entry
+ */
+export function toStatusIndexKey(entry: CampaignIndexEntry): string {
+	const key: StatusIndexKey = [
+		entry.id,
+		entry.createdAt,
+		entry.updatedAt,
+		entry.publishAt ?? null,
+		entry.platforms,
+		entry.tags,
+		entry.schemaVersion,
+	];
+	return JSON.stringify(key);
+}
+
+/**
+ * Read an index entry back from its status index key
+ */
+function fromStatusIndexKey(
+	key: string,
+	workspaceId: string,
+	status: CampaignStatus,
+): CampaignIndexEntry | null {
+	try {
+		const [id, createdAt, updatedAt, publishAt, platforms, tags, schemaVersion] = JSON.parse(
+			key,
+		) as StatusIndexKey;
+
+		return {
+			id,
+			workspaceId,
+			status,
+			createdAt,
+			updatedAt,
+			publishAt: publishAt ?? undefined,
+			tags,
+			platforms,
+			trashed: false,
+			schemaVersion,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keep only the most recently updated entry of each campaign, in case a stale key was left behind
+ */
+function latestEntries(entries: CampaignIndexEntry[]): CampaignIndexEntry[] {
+	const byId = new Map<string, CampaignIndexEntry>();
+	for (const entry of entries) {
+		const existing = byId.get(entry.id);
+		if (!existing || existing.updatedAt < entry.updatedAt) byId.set(entry.id, entry);
+	}
+	return [...byId.values()];
+}
+
+/**
+ * Filter index entries to a workspace's campaigns in some statuses, without trashed ones
+ */
+function filterByStatus(
+	entries: CampaignIndexEntry[],
+	workspaceId: string,
+	statuses: CampaignStatus[],
+): CampaignIndexEntry[] {
+	return entries.filter(
+		(entry) => !entry.trashed && entry.workspaceId === workspaceId && statuses.includes(entry.status),
+	);
+}
+
+/**
+ * Sort revisions oldest first
+ */
+function sortRevisions(revisions: CampaignRevision[]): CampaignRevision[] {
+	return revisions.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Add a revision to an in-memory history, keeping only the most recent ones
+ */
+function appendRevision(history: CampaignRevision[] | undefined, revision: CampaignRevision): CampaignRevision[] {
+	return [...(history ?? []), JSON.parse(JSON.stringify(revision))].slice(-getRevisionLimit());
+}
+
+/**
+ * Check the expected version against the stored campaign and return the next version
+ */
+function nextVersion(campaign: Campaign, stored: Campaign | null | undefined): number {
+	const expectedVersion = campaign.version ?? 0;
+	const actualVersion = stored ? (stored.version ?? 0) : 0;
+
+	if (expectedVersion !== actualVersion) {
+		throw new CampaignConflictError(campaign.id, expectedVersion, actualVersion);
+	}
+
+	return expectedVersion + 1;
+}
+
+// Whether this process has seen the status index built, so it is not checked on every list
+let statusIndexReady = false;
+
+/**
+ * Campaign repository backed by the Agentuity KV store
+ *
+ * KV has no conditional writes, so the version check narrows the window for lost
+ * updates rather than closing it completely.
+ */
+export function createKVCampaignRepository(kv: KeyValueStorage): CampaignRepository {
+	// Get a stored record as-is, without migrating it
+	async function getRecord(id: string): Promise<Campaign | null> {
+		const result = await kv.get(CAMPAIGNS_STORE, id);
+		const campaign = result?.data as unknown as Campaign | undefined;
+
+		return campaign ?? null;
+	}
+
+	async function get(id: string): Promise<Campaign | null> {
+		const record = await getRecord(id);
+		return record ? migrateCampaignRecord(record) : null;
+	}
+
+	/**
+	 * Move IDs from the old single-list index into per-campaign index entries
+	 */
+	async function migrateLegacyIndex(): Promise<void> {
+		const result = await kv.get(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY);
+		if (!result.exists) return;
+
+		const index = result.data as unknown as CampaignIndex | undefined;
+		const campaignIds =
+			index?.campaignIds?.filter((id) => typeof id === "string" && id.trim() !== "") || [];
+
+		await Promise.all(
+			campaignIds.map((id) => kv.set(CAMPAIGNS_INDEX_ENTRIES_STORE, id, { id })),
+		);
+		await kv.delete(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY);
+	}
+
+	async function listIds(): Promise<string[]> {
+		await migrateLegacyIndex();
+		return kv.getKeys(CAMPAIGNS_INDEX_ENTRIES_STORE);
+	}
+
+	async function listIndexEntries(): Promise<CampaignIndexEntry[]> {
+		const ids = await listIds();
+
+		const entries = await Promise.all(
+			ids.map(async (id) => {
+				const result = await kv.get(CAMPAIGNS_INDEX_ENTRIES_STORE, id);
+				const entry = result?.data as unknown as Partial<CampaignIndexEntry> | undefined;
+				if (entry?.createdAt) return entry as CampaignIndexEntry;
+
+				// Entries written before the index held summaries only have the ID
+				const campaign = await getRecord(id);
+				if (!campaign) return null;
+
+				const summary = toIndexEntry(campaign);
+				await kv.set(CAMPAIGNS_INDEX_ENTRIES_STORE, id, summary);
+				return summary;
+			}),
+		);
+
+		return entries.filter((entry): entry is CampaignIndexEntry => entry !== null);
+	}
+
+	/**
+	 * Move a campaign's status index key from its previous entry to its new one
+	 */
+	async function updateStatusIndex(
+		before: CampaignIndexEntry | null,
+		after: CampaignIndexEntry | null,
+	): Promise<void> {
+		const beforeStore = before && !before.trashed ? getStatusIndexStore(before.workspaceId, before.status) : null;
+		const afterStore = after && !after.trashed ? getStatusIndexStore(after.workspaceId, after.status) : null;
+		const beforeKey = before && toStatusIndexKey(before);
+		const afterKey = after && toStatusIndexKey(after);
+
+		if (afterStore && afterKey) {
+			await kv.set(afterStore, afterKey, { id: after.id });
+		}
+		if (beforeStore && beforeKey && (beforeStore !== afterStore || beforeKey !== afterKey)) {
+			await kv.delete(beforeStore, beforeKey);
+		}
+	}
+
+	function changeMarkerKey(workspaceId: string): string {
+		return `${CHANGE_MARKER_KEY_PREFIX}:${workspaceId}`;
+	}
+
+	/**
+	 * Give a workspace a new change marker
+	 */
+	async function markChanged(workspaceId: string): Promise<string> {
+		const marker = crypto.randomUUID();
+		await kv.set(CAMPAIGNS_INDEX_STORE, changeMarkerKey(workspaceId), { marker });
+		return marker;
+	}
+
+	/**
+	 * Add campaigns saved before the status index existed to it, once
+	 */
+	async function ensureStatusIndex(): Promise<void> {
+		if (statusIndexReady) return;
+
+		const marker = await kv.get(CAMPAIGNS_INDEX_STORE, STATUS_INDEX_READY_KEY);
+		if (!marker.exists) {
+			const entries = await listIndexEntries();
+			await Promise.all(entries.map((entry) => updateStatusIndex(null, entry)));
+			await kv.set(CAMPAIGNS_INDEX_STORE, STATUS_INDEX_READY_KEY, { builtAt: new Date().toISOString() });
+		}
+		statusIndexReady = true;
+	}
+
+	function revisionKey(campaignId: string, version: number): string {
+		return `${campaignId}:${version}`;
+	}
+
+	// Records the first version whose revision may still be stored, so pruning never revisits older ones
+	function revisionPrunedKey(campaignId: string): string {
+		return `${campaignId}:pruned`;
+	}
+
+	// Revisions are recorded per saved version, so the kept ones are the last versions up to the current one
+	function getKeptVersions(currentVersion: number): number[] {
+		const first = Math.max(1, currentVersion - getRevisionLimit() + 1);
+		return Array.from({ length: Math.max(0, currentVersion - first + 1) }, (_, i) => first + i);
+	}
+
+	return {
+		get,
+
+		async save(campaign) {
+			const previous = await getRecord(campaign.id);
+			const version = nextVersion(campaign, previous);
+			const stored = toStoredCampaign(campaign, version);
+			const entry = toIndexEntry(stored);
+
+			await kv.set(CAMPAIGNS_STORE, campaign.id, stored);
+			await kv.set(CAMPAIGNS_INDEX_ENTRIES_STORE, campaign.id, entry);
+			await updateStatusIndex(previous && toIndexEntry(previous), entry);
+			await markChanged(entry.workspaceId);
+
+			return version;
+		},
+
+		async delete(id) {
+			const record = await getRecord(id);
+
+			await kv.delete(CAMPAIGNS_INDEX_ENTRIES_STORE, id);
+			await kv.delete(CAMPAIGNS_STORE, id);
+			if (record) {
+				await updateStatusIndex(toIndexEntry(record), null);
+				await markChanged(toIndexEntry(record).workspaceId);
+			}
+
+			const versions = getKeptVersions(record?.version ?? 0);
+			await Promise.all(versions.map((version) => kv.delete(CAMPAIGN_REVISIONS_STORE, revisionKey(id, version))));
+			await kv.delete(CAMPAIGN_REVISIONS_STORE, revisionPrunedKey(id));
+		},
+
+		listIds,
+
+		listIndexEntries,
+
+		async listEntriesByStatus(workspaceId, statuses) {
+			await ensureStatusIndex();
+
+			const entries = await Promise.all(
+				statuses.map(async (status) => {
+					const keys = await kv.getKeys(getStatusIndexStore(workspaceId, status));
+					return keys.map((key) => fromStatusIndexKey(key, workspaceId, status));
+				}),
+			);
+
+			return latestEntries(entries.flat().filter((entry): entry is CampaignIndexEntry => entry !== null));
+		},
+
+		async getChangeMarker(workspaceId) {
+			const result = await kv.get(CAMPAIGNS_INDEX_STORE, changeMarkerKey(workspaceId));
+			const stored = result?.data as unknown as { marker?: string } | undefined;
+
+			// Workspaces not saved to since markers were added get one now
+			return stored?.marker ?? (await markChanged(workspaceId));
+		},
+
+		async addRevision(revision) {
+			await kv.set(
+				CAMPAIGN_REVISIONS_STORE,
+				revisionKey(revision.campaignId, revision.version),
+				JSON.parse(JSON.stringify(revision)),
+			);
+
+			// Drop every revision below the kept range, from the first version that may still be stored
+			const keepFrom = revision.version - getRevisionLimit() + 1;
+			const prunedKey = revisionPrunedKey(revision.campaignId);
+			const pruned = (await kv.get(CAMPAIGN_REVISIONS_STORE, prunedKey))?.data as unknown as
+				| { keptFrom: number }
+				| undefined;
+			const pruneFrom = pruned?.keptFrom ?? 1;
+
+			if (keepFrom > pruneFrom) {
+				await Promise.all(
+					Array.from({ length: keepFrom - pruneFrom }, (_, i) =>
+						kv.delete(CAMPAIGN_REVISIONS_STORE, revisionKey(revision.campaignId, pruneFrom + i)),
+					),
+				);
+				await kv.set(CAMPAIGN_REVISIONS_STORE, prunedKey, { keptFrom: keepFrom });
+			}
+		},
+
+		async listRevisions(campaignId) {
+			const versions = getKeptVersions((await getRecord(campaignId))?.version ?? 0);
+			const results = await Promise.all(
+				versions.map((version) => kv.get(CAMPAIGN_REVISIONS_STORE, revisionKey(campaignId, version))),
+			);
+
+			return sortRevisions(
+				results
+					.map((result) => result?.data as unknown as CampaignRevision | undefined)
+					.filter((revision): revision is CampaignRevision => !!revision),
+			);
+		},
+	};
+}
+
+/**
+ * Campaign repository held in process memory, for offline runs and tests
+ */
+export function createMemoryCampaignRepository(
+	initial: Campaign[] = [],
+): CampaignRepository {
+	const campaigns = new Map(initial.map((campaign) => [campaign.id, cloneCampaign(campaign)]));
+	const revisions = new Map<string, CampaignRevision[]>();
+	// Workspace ID → number of saves and deletes of its campaigns
+	const changes = new Map<string, number>();
+
+	function markChanged(campaign: Campaign | undefined): void {
+		if (!campaign) return;
+		const workspaceId = toIndexEntry(campaign).workspaceId;
+		changes.set(workspaceId, (changes.get(workspaceId) ?? 0) + 1);
+	}
+
+	return {
+		async get(id) {
+			const campaign = campaigns.get(id);
+			return campaign ? migrateCampaignRecord(campaign) : null;
+		},
+
+		async save(campaign) {
+			const version = nextVersion(campaign, campaigns.get(campaign.id));
+			campaigns.set(campaign.id, toStoredCampaign(campaign, version));
+			markChanged(campaign);
+			return version;
+		},
+
+		async delete(id) {
+			markChanged(campaigns.get(id));
+			campaigns.delete(id);
+			revisions.delete(id);
+		},
+
+		async listIds() {
+			return [...campaigns.keys()];
+		},
+
+		async listIndexEntries() {
+			return [...campaigns.values()].map(toIndexEntry);
+		},
+
+		async listEntriesByStatus(workspaceId, statuses) {
+			return filterByStatus([...campaigns.values()].map(toIndexEntry), workspaceId, statuses);
+		},
+
+		async getChangeMarker(workspaceId) {
+			return String(changes.get(workspaceId) ?? 0);
+		},
+
+		async addRevision(revision) {
+			revisions.set(revision.campaignId, appendRevision(revisions.get(revision.campaignId), revision));
+		},
+
+		async listRevisions(campaignId) {
+			const history = revisions.get(campaignId) ?? [];
+			return sortRevisions(JSON.parse(JSON.stringify(history)));
+		},
+	};
+}
+
+// Shape of the JSON file used by the file repository
+interface CampaignFile {
+	campaignIds: string[];
+	campaigns: Record<string, Campaign>;
+	revisions: Record<string, CampaignRevision[]>;
+}
+
+/**
+ * Campaign repository stored in a local JSON file, for offline runs that survive restarts
+ */
+export function createFileCampaignRepository(filePath: string): CampaignRepository {
+	// Serialize writes so concurrent saves in this process cannot interleave
+	let queue: Promise<unknown> = Promise.resolve();
+
+	async function read(): Promise<CampaignFile> {
+		try {
+			const data = JSON.parse(await readFile(filePath, "utf8")) as Partial<CampaignFile>;
+			return {
+				campaignIds: Array.isArray(data.campaignIds) ? data.campaignIds : [],
+				campaigns: data.campaigns ?? {},
+				revisions: data.revisions ?? {},
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return { campaignIds: [], campaigns: {}, revisions: {} };
+			}
+			throw error;
+		}
+	}
+
+	async function write(data: CampaignFile): Promise<void> {
+		await mkdir(dirname(filePath), { recursive: true });
+
+		// Write to a temporary file first so a crash never leaves a half-written file
+		const tempPath = `${filePath}.${process.pid}.tmp`;
+		await writeFile(tempPath, JSON.stringify(data, null, "\t"));
+		await rename(tempPath, filePath);
+	}
+
+	async function listIndexEntries(): Promise<CampaignIndexEntry[]> {
+		await queue;
+		const data = await read();
+		return data.campaignIds
+			.map((id) => data.campaigns[id])
+			.filter((campaign): campaign is Campaign => !!campaign)
+			.map(toIndexEntry);
+	}
+
+	function update<T>(change: (data: CampaignFile) => T): Promise<T> {
+		const next = queue.then(async () => {
+			const data = await read();
+			const result = change(data);
+			await write(data);
+			return result;
+		});
+		queue = next.catch(() => undefined);
+		return next;
+	}
+
+	return {
+		async get(id) {
+			await queue;
+			const campaign = (await read()).campaigns[id];
+			return campaign ? migrateCampaignRecord(campaign) : null;
+		},
+
+		save(campaign) {
+			return update((data) => {
+				const version = nextVersion(campaign, data.campaigns[campaign.id]);
+				data.campaigns[campaign.id] = toStoredCampaign(campaign, version);
+				if (!data.campaignIds.includes(campaign.id)) {
+					data.campaignIds.push(campaign.id);
+				}
+				return version;
+			});
+		},
+
+		delete(id) {
+			return update((data) => {
+				delete data.campaigns[id];
+				delete data.revisions[id];
+				data.campaignIds = data.campaignIds.filter((cid) => cid !== id);
+			});
+		},
+
+		async listIds() {
+			await queue;
+			return (await read()).campaignIds;
+		},
+
+		listIndexEntries,
+
+		async listEntriesByStatus(workspaceId, statuses) {
+			return filterByStatus(await listIndexEntries(), workspaceId, statuses);
+		},
+
+		// Other processes can write the file, so there is no marker to trust
+		async getChangeMarker() {
+			return null;
+		},
+
+		addRevision(revision) {
+			return update((data) => {
+				data.revisions[revision.campaignId] = appendRevision(data.revisions[revision.campaignId], revision);
+			});
+		},
+
+		async listRevisions(campaignId) {
+			await queue;
+			return sortRevisions((await read()).revisions[campaignId] ?? []);
+		},
+	};
+}
+
+// Offline repositories are shared by every agent and route in the process
+let memoryRepository: CampaignRepository | undefined;
+const fileRepositories = new Map<string, CampaignRepository>();
+
+/**
+ * Get the campaign repository selected by the CAMPAIGN_REPOSITORY environment variable
+ *
+ * - `kv` (default): the Agentuity KV store from the given context
+ * - `memory`: an in-process store that is lost on restart
+ * - `file`: a JSON file at CAMPAIGN_REPOSITORY_PATH (defaults to .data/campaigns.json)
+ */
+export function getCampaignRepository(ctx: { kv: KeyValueStorage }): CampaignRepository {
+	const kind = process.env.CAMPAIGN_REPOSITORY?.toLowerCase() || "kv";
+
+	if (kind === "memory") {
+		memoryRepository ??= createMemoryCampaignRepository();
+		return memoryRepository;
+	}
+
+	if (kind === "file") {
+		const filePath = process.env.CAMPAIGN_REPOSITORY_PATH || DEFAULT_FILE_PATH;
+		let repository = fileRepositories.get(filePath);
+		if (!repository) {
+			repository = createFileCampaignRepository(filePath);
+			fileRepositories.set(filePath, repository);
+		}
+		return repository;
+	}
+
+	return createKVCampaignRepository(ctx.kv);
+}
@@ -0,0 +1,277 @@
+/**
+ * Edits to a campaign's LinkedIn posts and Twitter threads
+ *
+ * Each edit changes the campaign it is given, so it can run inside
+ * updateCampaign and be re-applied after a conflicting save.
+ */
+
+import type { Campaign, CampaignContent, Post, PostInput, ThreadInput } from "../types";
+
+type PostIdPrefix = "linkedin-post-" | "twitter-thread-";
+
+/**
+ * Thrown when an edit names a post that does not exist or cannot be changed
+ */
+export class ContentEditError extends Error {
+	constructor(
+		message: string,
+		public readonly status: 400 | 404 | 409,
+	) {
+		super(message);
+		this.name = "ContentEditError";
+	}
+}
+
+/**
+ * Split a post ID such as "linkedin-post-1" or "twitter-thread-0" into its platform and position
+ */
+export function parsePostId(postId: string): { platform: Post["platform"]; index: number } | null {
+	const match = postId.match(/^(linkedin)-post-(\d+)$|^(twitter)-thread-(\d+)$/);
+	if (!match) return null;
+
+	return match[1]
+		? { platform: "linkedin", index: Number(match[2]) }
+		: { platform: "twitter", index: Number(match[4]) };
+}
+
+function toPost(platform: Post["platform"], input: PostInput): Post {
+	return { platform, content: input.content, media: input.media ?? [] };
+}
+
+function getContent(campaign: Campaign): CampaignContent {
+	campaign.content ??= { linkedInPosts: [], twitterThreads: [] };
+	return campaign.content;
+}
+
+function checkIndex(index: number, length: number, label: string): void {
+	if (!Number.isInteger(index) || index < 0 || index >= length) {
+		throw new ContentEditError(`${label} ${index} not found`, 404);
+	}
+}
+
+function checkPosition(position: number | undefined, length: number): number {
+	if (position === undefined) return length;
+	if (position > length) {
+		throw new ContentEditError(`Position ${position} is past the end of the list (${length} items)`, 400);
+	}
+	return position;
+}
+
+/**
+ * Check that `order` lists every current index exactly once
+ */
+function checkOrder(order: number[], length: number): void {
+	const sorted = [...order].sort((a, b) => a - b);
+	if (sorted.length !== length || sorted.some((index, i) => index !== i)) {
+		throw new ContentEditError(`Order must list each index from 0 to ${length - 1} exactly once`, 400);
+	}
+}
+
+/**
+ * Refuse to change a post or thread that already has a live Typefully draft,
+ * since the draft would no longer match
+ */
+function checkNotScheduled(campaign: Campaign, postId: string): void {
+	const scheduled = campaign.schedulingInfo?.scheduledPosts.find(
+		(post) => post.postId === postId && post.typefullyId,
+	);
+
+	if (scheduled && scheduled.status !== "failed" && scheduled.status !== "cancelled") {
+		throw new ContentEditError(
+			`${postId} is already ${scheduled.status} in Typefully as ${scheduled.typefullyId}`,
+			409,
+		);
+	}
+}
+
+/**
+ * Move drafts and checkpoints along with their posts
+ *
+ * Post IDs are positions, such as "linkedin-post-2", so inserting, removing or
+ * reordering posts changes the ID of every post after the edit.
+ * @param newIndex The new position of the post at each old position, or null if it was removed
+ */
+function moveDrafts(
+	campaign: Campaign,
+	prefix: PostIdPrefix,
+	newIndex: (oldIndex: number) => number | null,
+): void {
+	const remap = (postId: string): string | null => {
+		if (!postId.startsWith(prefix)) return postId;
+		const index = newIndex(Number.parseInt(postId.slice(prefix.length), 10));
+		return index === null ? null : `${prefix}${index}`;
+	};
+
+	if (campaign.schedulingInfo) {
+		campaign.schedulingInfo.scheduledPosts = campaign.schedulingInfo.scheduledPosts.flatMap((post) => {
+			const postId = remap(post.postId);
+			return postId === null ? [] : [{ ...post, postId }];
+		});
+	}
+
+	if (campaign.checkpoints) {
+		const checkpoints: NonNullable<Campaign["checkpoints"]> = {};
+		for (const [step, checkpoint] of Object.entries(campaign.checkpoints)) {
+			if (!step.startsWith("draft:")) {
+				checkpoints[step] = checkpoint;
+				continue;
+			}
+			const postId = remap(step.slice("draft:".length));
+			if (postId !== null) checkpoints[`draft:${postId}`] = checkpoint;
+		}
+		campaign.checkpoints = checkpoints;
+	}
+}
+
+function insertAt<T>(
+	items: T[],
+	item: T,
+	position: number | undefined,
+	prefix: PostIdPrefix,
+	campaign: Campaign,
+): number {
+	const index = checkPosition(position, items.length);
+	items.splice(index, 0, item);
+	moveDrafts(campaign, prefix, (old) => (old >= index ? old + 1 : old));
+	return index;
+}
+
+function removeAt<T>(items: T[], index: number, prefix: PostIdPrefix, campaign: Campaign): void {
+	items.splice(index, 1);
+	moveDrafts(campaign, prefix, (old) => (old === index ? null : old > index ? old - 1 : old));
+}
+
+function reorder<T>(items: T[], order: number[], prefix: PostIdPrefix, campaign: Campaign): T[] {
+	checkOrder(order, items.length);
+	moveDrafts(campaign, prefix, (old) => order.indexOf(old));
+	return order.map((old) => items[old]!);
+}
+
+/**
+ * Add a LinkedIn post at `position`, or at the end
+ * @returns The index of the new post
+ */
+export function addLinkedInPost(campaign: Campaign, input: PostInput, position?: number): number {
+	const content = getContent(campaign);
+	return insertAt(content.linkedInPosts, toPost("linkedin", input), position, "linkedin-post-", campaign);
+}
+
+/**
+ * Change the text or media of a LinkedIn post that has not been scheduled
+ */
+export function updateLinkedInPost(campaign: Campaign, index: number, changes: Partial<PostInput>): void {
+	const posts = getContent(campaign).linkedInPosts;
+	checkIndex(index, posts.length, "LinkedIn post");
+	checkNotScheduled(campaign, `linkedin-post-${index}`);
+
+	const post = posts[index]!;
+	if (changes.content !== undefined) post.content = changes.content;
+	if (changes.media !== undefined) post.media = changes.media;
+	// Changed content needs a fresh review
+	delete post.review;
+}
+
+/**
+ * Remove a LinkedIn post that has not been scheduled
+ */
+export function removeLinkedInPost(campaign: Campaign, index: number): void {
+	const posts = getContent(campaign).linkedInPosts;
+	checkIndex(index, posts.length, "LinkedIn post");
+	checkNotScheduled(campaign, `linkedin-post-${index}`);
+
+	removeAt(posts, index, "linkedin-post-", campaign);
+}
+
+/**
+ * Put LinkedIn posts in a new order, given as the current index of each post
+ */
+export function reorderLinkedInPosts(campaign: Campaign, order: number[]): void {
+	const content = getContent(campaign);
+	content.linkedInPosts = reorder(content.linkedInPosts, order, "linkedin-post-", campaign);
+}
+
+/**
+ * Add a Twitter thread at `position`, or at the end
+ * @returns The index of the new thread
+ */
+export function addTwitterThread(campaign: Campaign, input: ThreadInput, position?: number): number {
+	const thread = { tweets: input.tweets.map((tweet) => toPost("twitter", tweet)) };
+	return insertAt(getContent(campaign).twitterThreads, thread, position, "twitter-thread-", campaign);
+}
+
+/**
+ * Remove a Twitter thread that has not been scheduled
+ */
+export function removeTwitterThread(campaign: Campaign, index: number): void {
+	const threads = getContent(campaign).twitterThreads;
+	checkIndex(index, threads.length, "Twitter thread");
+	checkNotScheduled(campaign, `twitter-thread-${index}`);
+
+	removeAt(threads, index, "twitter-thread-", campaign);
+}
+
+/**
+ * Get the tweets of a thread that can still be edited
+ *
+ * The thread's review is cleared, since any edit to its tweets needs a fresh review.
+ */
+function getEditableTweets(campaign: Campaign, threadIndex: number): Post[] {
+	const threads = getContent(campaign).twitterThreads;
+	checkIndex(threadIndex, threads.length, "Twitter thread");
+	checkNotScheduled(campaign, `twitter-thread-${threadIndex}`);
+
+	const thread = threads[threadIndex]!;
+	delete thread.review;
+	return thread.tweets;
+}
+
+/**
+ * Add a tweet to a thread at `position`, or at the end
+ * @returns The index of the new tweet
+ */
+export function addTweet(campaign: Campaign, threadIndex: number, input: PostInput, position?: number): number {
+	const tweets = getEditableTweets(campaign, threadIndex);
+	const index = checkPosition(position, tweets.length);
+	tweets.splice(index, 0, toPost("twitter", input));
+	return index;
+}
+
+/**
+ * Change the text or media of a tweet
+ */
+export function updateTweet(
+	campaign: Campaign,
+	threadIndex: number,
+	tweetIndex: number,
+	changes: Partial<PostInput>,
+): void {
+	const tweets = getEditableTweets(campaign, threadIndex);
+	checkIndex(tweetIndex, tweets.length, "Tweet");
+
+	const tweet = tweets[tweetIndex]!;
+	if (changes.content !== undefined) tweet.content = changes.content;
+	if (changes.media !== undefined) tweet.media = changes.media;
+}
+
+/**
+ * Remove a tweet from a thread; the last tweet can only go with its thread
+ */
+export function removeTweet(campaign: Campaign, threadIndex: number, tweetIndex: number): void {
+	const tweets = getEditableTweets(campaign, threadIndex);
+	checkIndex(tweetIndex, tweets.length, "Tweet");
+
+	if (tweets.length === 1) {
+		throw new ContentEditError("A thread needs at least one tweet; remove the thread instead", 409);
+	}
+	tweets.splice(tweetIndex, 1);
+}
+
+/**
+ * Put a thread's tweets in a new order, given as the current index of each tweet
+ */
+export function reorderTweets(campaign: Campaign, threadIndex: number, order: number[]): void {
+	const tweets = getEditableTweets(campaign, threadIndex);
+	checkOrder(order, tweets.length);
+
+	getContent(campaign).twitterThreads[threadIndex]!.tweets = order.map((old) => tweets[old]!);
+}
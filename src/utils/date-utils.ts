@@ -101,3 +101,21 @@ export function incrementDateByDays(dateStr: string, days: number): string {
 		return dateStr;
 	}
 }
+
+/**
+ * Move a stored date by a number of days, keeping its format
+ * @param dateStr A date-only string such as "2030-01-05", or any date getValidDate accepts
+ * @param days Number of days to add
+ * @returns A date-only string for date-only input, otherwise a date string in ISO format
+ */
+export function shiftDate(dateStr: string, days: number): string {
+	if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr.trim())) {
+		const date = new Date(`${dateStr.trim()}T00:00:00.000Z`);
+		if (!Number.isNaN(date.getTime())) {
+			date.setUTCDate(date.getUTCDate() + days);
+			return date.toISOString().slice(0, 10);
+		}
+	}
+
+	return incrementDateByDays(getValidDate(dateStr, false), days);
+}
@@ -0,0 +1,65 @@
+/**
+ * Structured diff utility functions for JSON-compatible values
+ */
+
+/**
+ * A single change between two versions of a value
+ */
+export interface Change {
+	/** Dot-separated path to the changed value, e.g. "content.linkedInPosts.0.content" */
+	path: string;
+	type: "added" | "removed" | "changed";
+	before?: unknown;
+	after?: unknown;
+}
+
+/**
+ * Check whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compute the changes needed to turn `before` into `after`
+ * @param before The previous value
+ * @param after The new value
+ * @param ignore Top-level keys to leave out of the diff
+ * @returns A flat list of changes, one per changed leaf value
+ */
+export function diffValues(
+	before: unknown,
+	after: unknown,
+	ignore: string[] = [],
+	path = "",
+): Change[] {
+	if (before === after) {
+		return [];
+	}
+
+	const bothObjects = isPlainObject(before) && isPlainObject(after);
+	const bothArrays = Array.isArray(before) && Array.isArray(after);
+
+	if (!bothObjects && !bothArrays) {
+		if (before === undefined) return [{ path, type: "added", after }];
+		if (after === undefined) return [{ path, type: "removed", before }];
+		return JSON.stringify(before) === JSON.stringify(after)
+			? []
+			: [{ path, type: "changed", before, after }];
+	}
+
+	const beforeRecord = before as Record<string, unknown>;
+	const afterRecord = after as Record<string, unknown>;
+	const keys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+	const changes: Change[] = [];
+	for (const key of keys) {
+		if (!path && ignore.includes(key)) continue;
+
+		changes.push(
+			...diffValues(beforeRecord[key], afterRecord[key], ignore, path ? `${path}.${key}` : key),
+		);
+	}
+
+	return changes;
+}
@@ -0,0 +1,148 @@
+import type { CampaignEvent } from "../types";
+import type { StoreContext } from "./kv-store";
+
+// Constants
+const CAMPAIGN_EVENTS_STORE = "campaign_events";
+const CAMPAIGN_EVENT_COUNTS_STORE = "campaign_event_counts";
+const MAX_EVENTS_PER_CAMPAIGN = 500;
+// Events allowed beyond the limit before the oldest are removed, so listing them is rare
+const EVENT_TRIM_SLACK = 50;
+const EVENT_SETTLE_MS = 2000;
+
+// Define the stored event log structure, used before events had their own keys
+interface LegacyCampaignEventLog {
+	lastId: number;
+	events: CampaignEvent[];
+}
+
+/**
+ * A campaign event before it is given an ID and timestamp
+ */
+export type NewCampaignEvent = CampaignEvent extends infer E
+	? E extends CampaignEvent
+		? Omit<E, "id" | "timestamp">
+		: never
+	: never;
+
+let lastIssuedId = 0;
+
+/**
+ * Each campaign's events are stored in their own namespace, one key per event
+ */
+function eventsNamespace(campaignId: string): string {
+	return `${CAMPAIGN_EVENTS_STORE}:${campaignId}`;
+}
+
+/**
+ * Create an event ID: the time in milliseconds times 1000, plus a random part so
+ * that writers in other processes do not pick the same ID. IDs only grow within a process.
+ */
+function nextEventId(): number {
+	const id = Math.max(Date.now() * 1000 + Math.floor(Math.random() * 1000), lastIssuedId + 1);
+	lastIssuedId = id;
+	return id;
+}
+
+/**
+ * Read the event ID from an event key
+ */
+function parseEventKey(key: string): number {
+	return Number.parseInt(key.split("-")[0] || "", 10);
+}
+
+/**
+ * List a campaign's event keys, oldest first
+ */
+async function listEventKeys(ctx: StoreContext, campaignId: string): Promise<string[]> {
+	const keys = await ctx.kv.getKeys(eventsNamespace(campaignId));
+
+	return keys
+		.filter((key) => Number.isFinite(parseEventKey(key)))
+		.sort((a, b) => parseEventKey(a) - parseEventKey(b) || (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Safe access to a campaign's events from before they had their own keys
+ */
+async function getLegacyEvents(ctx: StoreContext, campaignId: string): Promise<CampaignEvent[]> {
+	const result = await ctx.kv.get(CAMPAIGN_EVENTS_STORE, campaignId);
+	const log = result?.data as unknown as LegacyCampaignEventLog | undefined;
+
+	return Array.isArray(log?.events) ? log.events : [];
+}
+
+/**
+ * Append a progress event to a campaign's event log
+ *
+ * Every event is written to a new key, so concurrent writers never overwrite
+ * each other. A per-campaign counter tracks how many events are stored; once it
+ * passes MAX_EVENTS_PER_CAMPAIGN by EVENT_TRIM_SLACK, the oldest events are
+ * removed, so the event keys are only listed once every EVENT_TRIM_SLACK writes.
+ * A count lost to a concurrent write only delays trimming.
+ * Failures are logged and swallowed: progress events must never break the pipeline.
+ */
+export async function appendCampaignEvent(
+	ctx: StoreContext,
+	campaignId: string,
+	event: NewCampaignEvent,
+): Promise<void> {
+	try {
+		const id = nextEventId();
+		const namespace = eventsNamespace(campaignId);
+
+		await ctx.kv.set(namespace, `${id}-${crypto.randomUUID().slice(0, 8)}`, {
+			...event,
+			id,
+			timestamp: new Date().toISOString(),
+		} as CampaignEvent);
+
+		const result = await ctx.kv.get(CAMPAIGN_EVENT_COUNTS_STORE, campaignId);
+		const count = ((result?.data as unknown as { count?: number } | undefined)?.count ?? 0) + 1;
+
+		if (count <= MAX_EVENTS_PER_CAMPAIGN + EVENT_TRIM_SLACK) {
+			await ctx.kv.set(CAMPAIGN_EVENT_COUNTS_STORE, campaignId, { count });
+			return;
+		}
+
+		const keys = await listEventKeys(ctx, campaignId);
+		const expired = keys.slice(0, Math.max(0, keys.length - MAX_EVENTS_PER_CAMPAIGN));
+		await Promise.all(expired.map((key) => ctx.kv.delete(namespace, key)));
+		await ctx.kv.set(CAMPAIGN_EVENT_COUNTS_STORE, campaignId, { count: keys.length - expired.length });
+	} catch (error) {
+		ctx.logger.warn("Failed to record event for campaign %s: %s", campaignId, error);
+	}
+}
+
+/**
+ * Get a campaign's events with an ID greater than the given one, oldest first
+ *
+ * Events from the last EVENT_SETTLE_MS are held back unless `includeRecent` is
+ * set: an event written at the same moment by another process may not be
+ * listed yet, and a client resuming after a later ID would skip it.
+ */
+export async function getCampaignEvents(
+	ctx: StoreContext,
+	campaignId: string,
+	afterId = 0,
+	options: { includeRecent?: boolean } = {},
+): Promise<CampaignEvent[]> {
+	const settledId = options.includeRecent
+		? Number.POSITIVE_INFINITY
+		: (Date.now() - EVENT_SETTLE_MS) * 1000 + 999;
+
+	const keys = (await listEventKeys(ctx, campaignId)).filter((key) => {
+		const id = parseEventKey(key);
+		return id > afterId && id <= settledId;
+	});
+
+	const namespace = eventsNamespace(campaignId);
+	const [legacyEvents, events] = await Promise.all([
+		getLegacyEvents(ctx, campaignId),
+		Promise.all(keys.map(async (key) => (await ctx.kv.get(namespace, key))?.data as unknown as CampaignEvent)),
+	]);
+
+	return [
+		...legacyEvents.filter((event) => event.id > afterId),
+		...events.filter((event): event is CampaignEvent => Boolean(event)),
+	];
+}
@@ -0,0 +1,150 @@
+/**
+ * Export utility functions for campaign bundles and post renderings
+ */
+
+import type { Campaign, CampaignBundle, SchedulingInfo } from "../types";
+
+// A post or tweet flattened for rendering
+interface PostRow {
+	platform: "linkedin" | "twitter";
+	postId: string;
+	tweetIndex: number | null;
+	scheduledDate: string;
+	typefullyId: string;
+	status: string;
+	content: string;
+}
+
+/**
+ * Flatten a campaign's posts and tweets into rows, with their scheduling details
+ */
+function toPostRows(campaign: Campaign): PostRow[] {
+	const scheduled = new Map<string, SchedulingInfo["scheduledPosts"][number]>(
+		campaign.schedulingInfo?.scheduledPosts.map((post) => [post.postId, post]) ?? [],
+	);
+
+	const rows: PostRow[] = [];
+
+	campaign.content?.linkedInPosts.forEach((post, i) => {
+		const postId = `linkedin-post-${i}`;
+		rows.push({
+			platform: "linkedin",
+			postId,
+			tweetIndex: null,
+			scheduledDate: post.scheduledDate ?? scheduled.get(postId)?.scheduledDate ?? "",
+			typefullyId: post.typefullyId ?? scheduled.get(postId)?.typefullyId ?? "",
+			status: scheduled.get(postId)?.status ?? "unscheduled",
+			content: post.content,
+		});
+	});
+
+	campaign.content?.twitterThreads.forEach((thread, i) => {
+		const postId = `twitter-thread-${i}`;
+		thread.tweets.forEach((tweet, j) => {
+			rows.push({
+				platform: "twitter",
+				postId,
+				tweetIndex: j,
+				scheduledDate: thread.scheduledDate ?? scheduled.get(postId)?.scheduledDate ?? "",
+				typefullyId: thread.typefullyId ?? scheduled.get(postId)?.typefullyId ?? "",
+				status: scheduled.get(postId)?.status ?? "unscheduled",
+				content: tweet.content,
+			});
+		});
+	});
+
+	return rows;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function escapeCsv(value: string | number | null): string {
+	const text = value === null ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a campaign's posts as CSV, one row per LinkedIn post or tweet
+ */
+export function renderPostsCsv(campaign: Campaign): string {
+	const header = ["platform", "postId", "tweetIndex", "scheduledDate", "typefullyId", "status", "content"];
+	const rows = toPostRows(campaign).map((row) =>
+		[
+			row.platform,
+			row.postId,
+			row.tweetIndex,
+			row.scheduledDate,
+			row.typefullyId,
+			row.status,
+			row.content,
+		]
+			.map(escapeCsv)
+			.join(","),
+	);
+
+	return [header.join(","), ...rows].join("\r\n");
+}
+
+/**
+ * Render a campaign's research summary and posts as Markdown
+ */
+export function renderPostsMarkdown(campaign: Campaign): string {
+	const lines = [`# ${campaign.topic}`, ""];
+
+	if (campaign.description) {
+		lines.push(campaign.description, "");
+	}
+
+	if (campaign.research) {
+		lines.push("## Research", "", campaign.research.description, "");
+		for (const insight of campaign.research.keyInsights) {
+			lines.push(`- ${insight}`);
+		}
+		lines.push("");
+	}
+
+	const rows = toPostRows(campaign);
+	const schedule = (row: PostRow) =>
+		row.scheduledDate ? ` (${row.status}, ${row.scheduledDate})` : ` (${row.status})`;
+
+	const linkedInRows = rows.filter((row) => row.platform === "linkedin");
+	if (linkedInRows.length > 0) {
+		lines.push("## LinkedIn posts", "");
+		for (const row of linkedInRows) {
+			lines.push(`### ${row.postId}${schedule(row)}`, "", row.content, "");
+		}
+	}
+
+	const threadIds = [...new Set(rows.filter((row) => row.platform === "twitter").map((row) => row.postId))];
+	if (threadIds.length > 0) {
+		lines.push("## Twitter threads", "");
+		for (const postId of threadIds) {
+			const tweets = rows.filter((row) => row.postId === postId);
+			lines.push(`### ${postId}${schedule(tweets[0]!)}`, "");
+			tweets.forEach((tweet, i) => lines.push(`${i + 1}. ${tweet.content.replace(/\n/g, "\n   ")}`));
+			lines.push("");
+		}
+	}
+
+	return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * Build a portable bundle for a campaign
+ *
+ * The stored version and trash state belong to the source environment and are left out.
+ */
+export function createCampaignBundle(campaign: Campaign): CampaignBundle {
+	const { version: _version, deletedAt: _deletedAt, ...portable } = campaign;
+
+	return {
+		bundleVersion: 1,
+		exportedAt: new Date().toISOString(),
+		campaign: JSON.parse(JSON.stringify(portable)),
+		renderings: {
+			csv: renderPostsCsv(campaign),
+			markdown: renderPostsMarkdown(campaign),
+		},
+	};
+}
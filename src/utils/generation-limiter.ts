@@ -0,0 +1,110 @@
+// Constants
+const DEFAULT_MAX_CONCURRENT = 3;
+const DEFAULT_MAX_QUEUED = 10;
+// Starting guess for how long a generation takes, until some have finished
+const INITIAL_DURATION_MS = 30 * 1000;
+// Weight of the latest generation in the running average duration
+const DURATION_SMOOTHING = 0.2;
+
+/**
+ * Thrown when a generation cannot even be queued because the queue is full
+ */
+export class GenerationQueueFullError extends Error {
+	constructor(public readonly retryAfterSeconds: number) {
+		super(`Too many generations in progress; retry in ${retryAfterSeconds}s`);
+		this.name = "GenerationQueueFullError";
+	}
+}
+
+// Generations running now, and the ones waiting for a slot in arrival order
+let active = 0;
+const queue: (() => void)[] = [];
+let averageDurationMs = INITIAL_DURATION_MS;
+
+function readLimit(name: string, fallback: number): number {
+	const value = Number.parseInt(process.env[name] || "", 10);
+	return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Number of LLM generations that may run at once, from MAX_CONCURRENT_GENERATIONS
+ */
+function getMaxConcurrent(): number {
+	return readLimit("MAX_CONCURRENT_GENERATIONS", DEFAULT_MAX_CONCURRENT);
+}
+
+/**
+ * Number of generations that may wait for a slot, from MAX_QUEUED_GENERATIONS
+ */
+function getMaxQueued(): number {
+	return readLimit("MAX_QUEUED_GENERATIONS", DEFAULT_MAX_QUEUED);
+}
+
+/**
+ * Estimate how long until the queue has room again, from the average generation time
+ */
+function estimateRetryAfterSeconds(): number {
+	const waves = (queue.length + 1) / getMaxConcurrent();
+	return Math.max(1, Math.ceil((averageDurationMs * waves) / 1000));
+}
+
+/**
+ * Check whether new generations can be queued
+ * @returns null when there is room, or the number of seconds to wait before retrying
+ */
+export function getGenerationRetryAfter(): number | null {
+	if (active < getMaxConcurrent() || queue.length < getMaxQueued()) {
+		return null;
+	}
+	return estimateRetryAfterSeconds();
+}
+
+/**
+ * Run an LLM generation once one of the global slots is free
+ *
+ * Generations beyond MAX_CONCURRENT_GENERATIONS wait their turn in order.
+ * @throws GenerationQueueFullError when MAX_QUEUED_GENERATIONS are already waiting
+ */
+export async function runGeneration<T>(generate: () => Promise<T>): Promise<T> {
+	if (active >= getMaxConcurrent()) {
+		if (queue.length >= getMaxQueued()) {
+			throw new GenerationQueueFullError(estimateRetryAfterSeconds());
+		}
+		// The finishing generation hands its slot straight over, so `active` stays the same
+		await new Promise<void>((resolve) => queue.push(resolve));
+	} else {
+		active++;
+	}
+
+	const startedAt = Date.now();
+	try {
+		return await generate();
+	} finally {
+		averageDurationMs += (Date.now() - startedAt - averageDurationMs) * DURATION_SMOOTHING;
+
+		const next = queue.shift();
+		if (next) next();
+		else active--;
+	}
+}
+
+/**
+ * Route middleware that turns requests away with a 429 while the generation queue is full,
+ * rather than letting them fail part-way through
+ */
+export function requireGenerationCapacity() {
+	return async (
+		c: { json(body: { error: string }, status: 429, headers: Record<string, string>): Response },
+		next: () => Promise<void>,
+	) => {
+		const retryAfter = getGenerationRetryAfter();
+		if (retryAfter !== null) {
+			return c.json(
+				{ error: "Too many content generations in progress; try again later" },
+				429,
+				{ "Retry-After": String(retryAfter) },
+			);
+		}
+		await next();
+	};
+}
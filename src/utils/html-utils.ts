@@ -0,0 +1,125 @@
+/**
+ * HTML utility functions for turning fetched pages into plain research material
+ */
+
+/**
+ * Plain content extracted from an HTML page
+ */
+export interface PageContent {
+	title: string;
+	description: string;
+	keywords: string[];
+	text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	mdash: "—",
+	ndash: "–",
+	hellip: "…",
+	rsquo: "’",
+	lsquo: "‘",
+	rdquo: "”",
+	ldquo: "“",
+};
+
+/**
+ * Decode the HTML entities that commonly show up in page text
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity.startsWith("#x") || entity.startsWith("#X")) {
+			return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+		}
+		if (entity.startsWith("#")) {
+			return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+/**
+ * Collapse runs of whitespace into single spaces
+ */
+function collapseWhitespace(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Read the content attribute of a <meta> tag matching the given name or property
+ */
+function getMetaContent(html: string, name: string): string | undefined {
+	const tags = html.match(/<meta\b[^>]*>/gi) || [];
+
+	for (const tag of tags) {
+		const key = tag.match(/\b(?:name|property)\s*=\s*["']([^"']+)["']/i)?.[1];
+		if (key?.toLowerCase() !== name) continue;
+
+		const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1];
+		if (content) return collapseWhitespace(decodeEntities(content));
+	}
+
+	return undefined;
+}
+
+/**
+ * Check whether a string looks like an HTTP(S) URL rather than pasted text
+ */
+export function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value.trim());
+		return url.protocol === "http:" || url.protocol === "https:";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Extract title, description, keywords and readable body text from an HTML document
+ */
+export function extractPageContent(html: string): PageContent {
+	const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+	const heading = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+
+	const title = collapseWhitespace(
+		decodeEntities(
+			(getMetaContent(html, "og:title") || titleTag || heading || "").replace(
+				/<[^>]+>/g,
+				"",
+			),
+		),
+	);
+
+	const description =
+		getMetaContent(html, "description") ||
+		getMetaContent(html, "og:description") ||
+		"";
+
+	const keywords = (getMetaContent(html, "keywords") || "")
+		.split(",")
+		.map((keyword) => keyword.trim())
+		.filter(Boolean);
+
+	// Prefer the main article body when the page marks one up
+	const body =
+		html.match(/<article[^>]*>([\s\S]*?)<\/article>/i)?.[1] ||
+		html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ||
+		html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ||
+		html;
+
+	const text = collapseWhitespace(
+		decodeEntities(
+			body
+				.replace(/<(script|style|noscript|svg|nav|footer|header)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+				.replace(/<!--[\s\S]*?-->/g, " ")
+				.replace(/<[^>]+>/g, " "),
+		),
+	);
+
+	return { title, description, keywords, text };
+}
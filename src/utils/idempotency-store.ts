@@ -0,0 +1,159 @@
+import { createHash } from "node:crypto";
+import type { StoreContext } from "./kv-store";
+import { DEFAULT_WORKSPACE_ID, resolveWorkspaceId } from "./workspace-store";
+
+// Constants
+const IDEMPOTENCY_STORE = "idempotency";
+const DEFAULT_WINDOW_HOURS = 24;
+// Printable ASCII without spaces, as clients usually send UUIDs
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+// A request still in progress after this long is assumed lost to a restart
+const IN_PROGRESS_STALE_AFTER_MS = 30 * 60 * 1000;
+
+/**
+ * Header that makes a request safe to retry
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Header set on responses replayed for a repeated Idempotency-Key
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+// The first request made with a key, and its response once it has finished
+interface IdempotencyRecord {
+	/** Hash of the method, path and body, to spot a key reused for another request */
+	fingerprint: string;
+	createdAt: string;
+	response?: {
+		status: number;
+		contentType: string;
+		body: string;
+	};
+}
+
+interface IdempotentRequest {
+	method: string;
+	path: string;
+	header(name: string): string | undefined;
+	query(name: string): string | undefined;
+	raw: Request;
+	text(): Promise<string>;
+}
+
+function sha256(value: string): string {
+	return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Number of hours a response is replayed for, from IDEMPOTENCY_WINDOW_HOURS
+ */
+export function getIdempotencyWindowHours(): number {
+	const hours = Number.parseInt(process.env.IDEMPOTENCY_WINDOW_HOURS || "", 10);
+	return Number.isInteger(hours) && hours > 0 ? hours : DEFAULT_WINDOW_HOURS;
+}
+
+/**
+ * Get a key's record, unless it is older than the replay window or was abandoned mid-request
+ */
+async function getRecord(ctx: StoreContext, storeKey: string): Promise<IdempotencyRecord | null> {
+	const result = await ctx.kv.get(IDEMPOTENCY_STORE, storeKey);
+	const record = result?.data as unknown as IdempotencyRecord | undefined;
+	if (!record) return null;
+
+	const age = Date.now() - new Date(record.createdAt).getTime();
+	if (age > getIdempotencyWindowHours() * 60 * 60 * 1000) return null;
+	if (!record.response && age > IN_PROGRESS_STALE_AFTER_MS) return null;
+
+	return record;
+}
+
+async function saveRecord(ctx: StoreContext, storeKey: string, record: IdempotencyRecord): Promise<void> {
+	await ctx.kv.set(IDEMPOTENCY_STORE, storeKey, JSON.parse(JSON.stringify(record)), {
+		ttl: getIdempotencyWindowHours() * 60 * 60,
+	});
+}
+
+/**
+ * Route middleware that honors the Idempotency-Key header
+ *
+ * The first response for a key is stored and replayed for repeats with the
+ * same key in the same workspace, so a retried request never runs twice.
+ * Reusing a key for a different request is rejected, as is a repeat that
+ * arrives while the first request is still running. Server errors and 429s
+ * are not stored, so the request can be retried. Requests without the header run as usual.
+ */
+export function idempotent() {
+	return async (
+		c: {
+			var: StoreContext;
+			req: IdempotentRequest;
+			res: Response;
+			json(body: { error: string }, status: 400 | 409 | 422): Response;
+		},
+		next: () => Promise<void>,
+	) => {
+		const key = c.req.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+		if (key === undefined) {
+			await next();
+			return;
+		}
+
+		if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+			return c.json({ error: `${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 printable characters` }, 400);
+		}
+
+		const workspaceId = resolveWorkspaceId(c.req) ?? DEFAULT_WORKSPACE_ID;
+		const storeKey = `${workspaceId}:${sha256(key)}`;
+		// The query string can change what a route does, such as ?async=true, so it is part of the request
+		const query = new URL(c.req.raw.url).searchParams;
+		query.sort();
+		const fingerprint = sha256(`${c.req.method} ${c.req.path}?${query}\n${await c.req.text()}`);
+
+		const existing = await getRecord(c.var, storeKey);
+		if (existing) {
+			if (existing.fingerprint !== fingerprint) {
+				return c.json({ error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` }, 422);
+			}
+			if (!existing.response) {
+				return c.json({ error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress` }, 409);
+			}
+
+			c.var.logger.info("Replaying response for idempotency key %s", storeKey);
+			return new Response(existing.response.body, {
+				status: existing.response.status,
+				headers: {
+					"Content-Type": existing.response.contentType,
+					[IDEMPOTENT_REPLAYED_HEADER]: "true",
+				},
+			});
+		}
+
+		// Claim the key first, so a repeat that arrives mid-request is turned away
+		const createdAt = new Date().toISOString();
+		await saveRecord(c.var, storeKey, { fingerprint, createdAt });
+
+		try {
+			await next();
+		} catch (error) {
+			await c.var.kv.delete(IDEMPOTENCY_STORE, storeKey);
+			throw error;
+		}
+
+		// Server errors and 429s are passing conditions, so a retry should run again
+		if (c.res.status >= 500 || c.res.status === 429) {
+			await c.var.kv.delete(IDEMPOTENCY_STORE, storeKey);
+			return;
+		}
+
+		await saveRecord(c.var, storeKey, {
+			fingerprint,
+			createdAt,
+			response: {
+				status: c.res.status,
+				contentType: c.res.headers.get("Content-Type") ?? "application/json",
+				body: await c.res.clone().text(),
+			},
+		});
+	};
+}
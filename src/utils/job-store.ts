@@ -0,0 +1,102 @@
+import type { Job, ManagerRequest } from "../types";
+import type { StoreContext } from "./kv-store";
+
+// Constants
+// One key per job, listed with getKeys, so concurrent saves never drop each other's jobs
+const JOBS_STORE = "jobs";
+
+/**
+ * Get a job by ID
+ */
+export async function getJob(ctx: StoreContext, id: string): Promise<Job | null> {
+	if (!id?.trim()) {
+		ctx.logger.error("Invalid job ID provided");
+		return null;
+	}
+
+	try {
+		const result = await ctx.kv.get(JOBS_STORE, id);
+		const job = result?.data as unknown as Job | undefined;
+
+		return job ?? null;
+	} catch (error) {
+		ctx.logger.error("Failed to get job %s: %s", id, error);
+		return null;
+	}
+}
+
+/**
+ * Save a job
+ */
+export async function saveJob(ctx: StoreContext, job: Job): Promise<boolean> {
+	try {
+		await ctx.kv.set(JOBS_STORE, job.id, JSON.parse(JSON.stringify(job)));
+
+		return true;
+	} catch (error) {
+		ctx.logger.error("Failed to save job %s: %s", job.id, error);
+		return false;
+	}
+}
+
+/**
+ * Create a queued job for a chat request
+ */
+export async function createJob(ctx: StoreContext, request: ManagerRequest): Promise<Job> {
+	const now = new Date().toISOString();
+
+	const job: Job = {
+		id: `job-${crypto.randomUUID()}`,
+		status: "queued",
+		request,
+		progress: { stage: "queued", percent: 0, nextStep: null },
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	const saved = await saveJob(ctx, job);
+	if (!saved) {
+		throw new Error("Failed to save job");
+	}
+
+	return job;
+}
+
+/**
+ * Apply changes to the latest stored copy of a job and save it
+ */
+export async function updateJob(
+	ctx: StoreContext,
+	id: string,
+	update: (job: Job) => void,
+): Promise<Job | null> {
+	const job = await getJob(ctx, id);
+
+	if (!job) {
+		ctx.logger.warn("Cannot update: job not found: %s", id);
+		return null;
+	}
+
+	update(job);
+	job.updatedAt = new Date().toISOString();
+
+	const saved = await saveJob(ctx, job);
+	return saved ? job : null;
+}
+
+/**
+ * List all jobs, newest first
+ */
+export async function listJobs(ctx: StoreContext): Promise<Job[]> {
+	try {
+		const jobIds = await ctx.kv.getKeys(JOBS_STORE);
+		const jobs = await Promise.all(jobIds.map((id) => getJob(ctx, id)));
+
+		return jobs
+			.filter((job): job is Job => job !== null)
+			.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	} catch (error) {
+		ctx.logger.error("Failed to list jobs: %s", error);
+		return [];
+	}
+}
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestContext } from "./__fixtures__/store-context";
+import { CampaignMigrationError } from "./campaign-migrations";
+import {
+	createCampaign,
+	getCampaign,
+	listCampaignRevisions,
+	restoreCampaignRevision,
+	updateCampaign,
+} from "./kv-store";
+
+const previousRepository = process.env.CAMPAIGN_REPOSITORY;
+
+beforeAll(() => {
+	process.env.CAMPAIGN_REPOSITORY = "memory";
+});
+
+afterAll(() => {
+	if (previousRepository === undefined) {
+		delete process.env.CAMPAIGN_REPOSITORY;
+	} else {
+		process.env.CAMPAIGN_REPOSITORY = previousRepository;
+	}
+});
+
+describe("updateCampaign", () => {
+	test("saves the change and records a revision of what changed", async () => {
+		const ctx = createTestContext();
+		const campaign = await createCampaign(ctx, "Pricing pages");
+
+		const updated = await updateCampaign(ctx, campaign.id, (latest) => {
+			latest.topic = "Pricing pages that convert";
+		});
+
+		expect(updated?.version).toBe(2);
+		expect((await getCampaign(ctx, campaign.id))?.topic).toBe("Pricing pages that convert");
+
+		const revisions = await listCampaignRevisions(ctx, campaign.id);
+		expect(revisions.map((revision) => revision.version)).toEqual([1, 2]);
+		expect(revisions[1]?.changes).toContainEqual({
+			path: "topic",
+			type: "changed",
+			before: "Pricing pages",
+			after: "Pricing pages that convert",
+		});
+	});
+
+	test("returns null for a campaign that does not exist", async () => {
+		const ctx = createTestContext();
+
+		expect(await updateCampaign(ctx, "campaign-missing", () => {})).toBeNull();
+	});
+});
+
+describe("restoreCampaignRevision", () => {
+	test("restores content while keeping status and scheduling info", async () => {
+		const ctx = createTestContext();
+		const campaign = await createCampaign(ctx, "Pricing pages");
+		await updateCampaign(ctx, campaign.id, (latest) => {
+			latest.content = {
+				linkedInPosts: [{ platform: "linkedin", content: "First draft" }],
+				twitterThreads: [],
+			};
+		});
+		const [, original] = await listCampaignRevisions(ctx, campaign.id);
+
+		await updateCampaign(ctx, campaign.id, (latest) => {
+			latest.status = "active";
+			latest.content = {
+				linkedInPosts: [
+					{
+						platform: "linkedin",
+						content: "Second draft",
+						scheduledDate: "2025-02-01T09:00:00.000Z",
+						typefullyId: "draft-1",
+					},
+				],
+				twitterThreads: [],
+			};
+			latest.schedulingInfo = {
+				scheduledPosts: [
+					{
+						postId: "linkedin-post-0",
+						typefullyId: "draft-1",
+						scheduledDate: "2025-02-01T09:00:00.000Z",
+						status: "scheduled",
+					},
+				],
+			};
+		});
+
+		const restored = await restoreCampaignRevision(ctx, campaign.id, original!);
+
+		expect(restored?.status).toBe("active");
+		expect(restored?.schedulingInfo?.scheduledPosts).toHaveLength(1);
+		// The restored post still points at the live draft of its post ID
+		expect(restored?.content?.linkedInPosts).toEqual([
+			{
+				platform: "linkedin",
+				content: "First draft",
+				scheduledDate: "2025-02-01T09:00:00.000Z",
+				typefullyId: "draft-1",
+			},
+		]);
+
+		// The restore is itself a revision
+		const revisions = await listCampaignRevisions(ctx, campaign.id);
+		expect(revisions.at(-1)?.version).toBe(restored?.version);
+	});
+
+	test("refuses a snapshot that does not match the campaign schema", async () => {
+		const ctx = createTestContext();
+		const campaign = await createCampaign(ctx, "Pricing pages");
+		const [revision] = await listCampaignRevisions(ctx, campaign.id);
+		const broken = { ...revision!, snapshot: { ...revision!.snapshot, topic: 42 } as never };
+
+		const error = await restoreCampaignRevision(ctx, campaign.id, broken).catch((e) => e);
+
+		expect(error).toBeInstanceOf(CampaignMigrationError);
+		expect(error.issues).toEqual([expect.stringContaining("topic")]);
+		expect((await getCampaign(ctx, campaign.id))?.version).toBe(1);
+	});
+});
@@ -1,65 +1,53 @@
-import type { Campaign } from "../types";
+import type { Campaign, CampaignRevision, Checkpoint, Post } from "../types";
 import type { AgentContext, AppState } from "@agentuity/runtime";
-
-// Constants
-const CAMPAIGNS_STORE = "campaigns";
-const CAMPAIGNS_INDEX_KEY = "campaigns_index";
-const CAMPAIGNS_INDEX_STORE = "campaigns_meta";
-
-// Define the campaign index structure
-interface CampaignIndex {
-	campaignIds: string[];
-}
+import { appendCampaignEvent } from "./event-store";
+import { CampaignConflictError, getCampaignRepository } from "./campaign-repository";
+import {
+	CURRENT_SCHEMA_VERSION,
+	CampaignMigrationError,
+	migrateCampaignRecord,
+} from "./campaign-migrations";
+import { diffValues } from "./diff-utils";
+import { DEFAULT_WORKSPACE_ID } from "./workspace-store";
+import { indexCampaign } from "./search-index";
+import { scoreTopicSimilarity } from "./similarity";
+
+const MAX_UPDATE_ATTEMPTS = 5;
+// Fields that change on every save and would only add noise to revision diffs
+const REVISION_IGNORED_FIELDS = ["updatedAt", "version"];
+const DEFAULT_DUPLICATE_THRESHOLD = 0.4;
+const MAX_DUPLICATE_MATCHES = 5;
+// Statuses of campaigns that may have Typefully drafts
+const SCHEDULED_STATUSES = new Set<Campaign["status"]>(["scheduling", "active", "completed"]);
 
 /**
- * Validates a campaign ID
+ * Storage access shared by agent and route contexts
+ *
+ * Agent contexts also carry `current`, which names the agent making a change.
  */
-function isValidId(id: unknown): id is string {
-	return Boolean(id && typeof id === "string" && id.trim() !== "");
-}
+export type StoreContext = Pick<AgentContext<any, unknown, AppState>, "kv" | "logger"> & {
+	current?: { name: string };
+};
 
 /**
- * Safe access to the campaign index
+ * Create a campaign ID; the random suffix keeps IDs unique when campaigns are created in the same millisecond
  */
-async function getCampaignIndex(ctx: AgentContext<any, unknown, AppState>): Promise<string[]> {
-	const result = await ctx.kv.get(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY);
-
-	// Type handling for the JSON data
-	const indexData = result.data as unknown;
-	const typedIndex = indexData as CampaignIndex | undefined;
-
-	return typedIndex?.campaignIds?.filter(isValidId) || [];
+function newCampaignId(): string {
+	return `campaign-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
 }
 
 /**
- * Updates the campaign index with a new ID
+ * Validates a campaign ID
  */
-async function updateCampaignIndex(
-	ctx: AgentContext<any, unknown, AppState>,
-	campaignId: string,
-): Promise<void> {
-	if (!isValidId(campaignId)) {
-		ctx.logger.error("Invalid campaign ID for indexing");
-		return;
-	}
-
-	const campaignIds = await getCampaignIndex(ctx);
-
-	// Only add if not already present
-	if (!campaignIds.includes(campaignId)) {
-		campaignIds.push(campaignId);
-		await ctx.kv.set(CAMPAIGNS_INDEX_STORE, CAMPAIGNS_INDEX_KEY, {
-			campaignIds,
-		});
-		ctx.logger.debug("Added campaign to index: %s", campaignId);
-	}
+function isValidId(id: unknown): id is string {
+	return Boolean(id && typeof id === "string" && id.trim() !== "");
 }
 
 /**
  * Get a campaign by ID
  */
 export async function getCampaign(
-	ctx: AgentContext<any, unknown, AppState>,
+	ctx: StoreContext,
 	id: string,
 ): Promise<Campaign | null> {
 	if (!isValidId(id)) {
@@ -68,11 +56,7 @@ export async function getCampaign(
 	}
 
 	try {
-		const result = await ctx.kv.get(CAMPAIGNS_STORE, id);
-
-		// Handle type conversion properly
-		const campaignData = result?.data as unknown;
-		const campaign = campaignData as Campaign | undefined;
+		const campaign = await getCampaignRepository(ctx).get(id);
 
 		if (!campaign) {
 			ctx.logger.debug("No campaign found with ID: %s", id);
@@ -86,11 +70,38 @@ export async function getCampaign(
 	}
 }
 
+/**
+ * Record a revision for a successful save
+ *
+ * Failures are logged and swallowed: a missing history entry must never fail a save.
+ */
+async function recordRevision(
+	ctx: StoreContext,
+	before: Campaign | null,
+	after: Campaign,
+): Promise<void> {
+	try {
+		const changes = diffValues(before ?? {}, after, REVISION_IGNORED_FIELDS);
+		if (before && changes.length === 0) return;
+
+		await getCampaignRepository(ctx).addRevision({
+			campaignId: after.id,
+			version: after.version ?? 1,
+			actor: ctx.current?.name ?? "api",
+			timestamp: after.updatedAt,
+			changes,
+			snapshot: JSON.parse(JSON.stringify(after)),
+		});
+	} catch (error) {
+		ctx.logger.warn("Failed to record revision for campaign %s: %s", after.id, error);
+	}
+}
+
 /**
  * Save a campaign
  */
 export async function saveCampaign(
-	ctx: AgentContext<any, unknown, AppState>,
+	ctx: StoreContext,
 	campaign: Campaign,
 ): Promise<boolean> {
 	if (!campaign || !isValidId(campaign.id)) {
@@ -99,29 +110,43 @@ export async function saveCampaign(
 	}
 
 	try {
-		// Convert to JSON-compatible format to ensure compatibility with KV store
-		const campaignJson = JSON.parse(JSON.stringify(campaign));
-
-		// Save campaign to KV store
-		await ctx.kv.set(CAMPAIGNS_STORE, campaign.id, campaignJson);
+		const repository = getCampaignRepository(ctx);
+		const previous = await repository.get(campaign.id);
 
-		// Update index
-		await updateCampaignIndex(ctx, campaign.id);
+		// Save the campaign and add it to the index, failing if someone else changed it first
+		campaign.version = await repository.save(campaign);
+		campaign.schemaVersion = CURRENT_SCHEMA_VERSION;
 
-		ctx.logger.debug("Campaign saved: %s", campaign.id);
+		ctx.logger.debug("Campaign saved: %s (version %d)", campaign.id, campaign.version);
+		await recordRevision(ctx, previous, campaign);
+		indexCampaign(campaign);
 		return true;
 	} catch (error) {
-		ctx.logger.error("Failed to save campaign %s: %s", campaign.id, error);
+		if (error instanceof CampaignConflictError) {
+			ctx.logger.warn("Campaign save conflict: %s", error.message);
+		} else {
+			ctx.logger.error("Failed to save campaign %s: %s", campaign.id, error);
+		}
 		return false;
 	}
 }
 
 /**
- * List all campaigns
+ * List all campaigns, or the campaigns of one workspace
+ *
+ * Campaigns in the trash are left out unless `includeTrashed` is set.
  */
-export async function listCampaigns(ctx: AgentContext<any, unknown, AppState>): Promise<Campaign[]> {
+export async function listCampaigns(
+	ctx: StoreContext,
+	options: { includeTrashed?: boolean; workspaceId?: string } = {},
+): Promise<Campaign[]> {
 	try {
-		const campaignIds = await getCampaignIndex(ctx);
+		const repository = getCampaignRepository(ctx);
+		const campaignIds = options.workspaceId
+			? (await repository.listIndexEntries())
+					.filter((entry) => entry.workspaceId === options.workspaceId)
+					.map((entry) => entry.id)
+			: await repository.listIds();
 
 		if (campaignIds.length === 0) {
 			return [];
@@ -131,9 +156,10 @@ export async function listCampaigns(ctx: AgentContext<any, unknown, AppState>):
 		const campaignPromises = campaignIds.map((id) => getCampaign(ctx, id));
 		const campaigns = await Promise.all(campaignPromises);
 
-		// Filter out null results
+		// Filter out null results and, unless asked for, trashed campaigns
 		return campaigns.filter(
-			(campaign): campaign is Campaign => campaign !== null,
+			(campaign): campaign is Campaign =>
+				campaign !== null && (options.includeTrashed || !campaign.deletedAt),
 		);
 	} catch (error) {
 		ctx.logger.error("Failed to list campaigns: %s", error);
@@ -142,34 +168,52 @@ export async function listCampaigns(ctx: AgentContext<any, unknown, AppState>):
 }
 
 /**
- * Find campaigns by topic (case-insensitive partial match)
+ * An existing campaign that looks like a duplicate of a requested topic
  */
-export async function findCampaignsByTopic(
-	ctx: AgentContext<any, unknown, AppState>,
+export interface SimilarCampaign {
+	campaign: Campaign;
+	similarity: number;
+	reason: string;
+}
+
+/**
+ * Similarity threshold for duplicate detection, from DUPLICATE_SIMILARITY_THRESHOLD
+ */
+export function getDuplicateThreshold(): number {
+	const threshold = Number.parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || "");
+	return threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_DUPLICATE_THRESHOLD;
+}
+
+/**
+ * Find campaigns in a workspace whose topic is similar to the given one, most similar first
+ */
+export async function findSimilarCampaigns(
+	ctx: StoreContext,
+	workspaceId: string,
 	topic: string,
-): Promise<Campaign[]> {
+	description?: string | null,
+	threshold = getDuplicateThreshold(),
+): Promise<SimilarCampaign[]> {
 	if (!topic?.trim()) {
-		ctx.logger.warn("Empty topic provided to findCampaignsByTopic");
+		ctx.logger.warn("Empty topic provided to findSimilarCampaigns");
 		return [];
 	}
 
 	try {
-		const allCampaigns = await listCampaigns(ctx);
-		const searchTerm = topic.toLowerCase().trim();
-
-		// First check for exact matches
-		const exactMatches = allCampaigns.filter(
-			(campaign) => campaign.topic.toLowerCase().trim() === searchTerm,
-		);
-
-		// Return exact matches if found, otherwise partial matches
-		return exactMatches.length > 0
-			? exactMatches
-			: allCampaigns.filter((campaign) =>
-					campaign.topic.toLowerCase().includes(searchTerm),
-				);
+		const allCampaigns = await listCampaigns(ctx, { workspaceId });
+		const scores = scoreTopicSimilarity({ topic, description }, allCampaigns);
+
+		return allCampaigns
+			.map((campaign, i) => ({
+				campaign,
+				similarity: scores[i]!.score,
+				reason: scores[i]!.reason,
+			}))
+			.filter((match) => match.similarity >= threshold)
+			.sort((a, b) => b.similarity - a.similarity)
+			.slice(0, MAX_DUPLICATE_MATCHES);
 	} catch (error) {
-		ctx.logger.error("Failed to find campaigns by topic: %s", error);
+		ctx.logger.error("Failed to find similar campaigns: %s", error);
 		return [];
 	}
 }
@@ -178,26 +222,32 @@ export async function findCampaignsByTopic(
  * Create a new campaign
  */
 export async function createCampaign(
-	ctx: AgentContext<any, unknown, AppState>,
+	ctx: StoreContext,
 	topic: string,
 	description?: string,
 	publishDate?: string,
+	source?: string,
+	workspaceId = DEFAULT_WORKSPACE_ID,
+	requireApproval = false,
 ): Promise<Campaign> {
 	if (!topic?.trim()) {
 		ctx.logger.error("Invalid topic provided for campaign creation");
 		throw new Error("Invalid topic provided");
 	}
 
-	const campaignId = `campaign-${Date.now()}`;
+	const campaignId = newCampaignId();
 	const now = new Date().toISOString();
 
 	// Create the campaign object
 	const campaign: Campaign = {
 		id: campaignId,
+		workspaceId,
 		topic,
 		description,
 		publishDate,
+		source,
 		status: "planning",
+		...(requireApproval && { requireApproval }),
 		createdAt: now,
 		updatedAt: now,
 	};
@@ -210,6 +260,126 @@ export async function createCampaign(
 		throw new Error("Failed to save campaign");
 	}
 
+	await appendCampaignEvent(ctx, campaignId, { type: "status", status: campaign.status });
+
+	return campaign;
+}
+
+/**
+ * Import a campaign from another environment into a workspace
+ *
+ * The record is upgraded and validated like a stored campaign. If its ID is
+ * already taken here, the campaign gets a new one. Scheduling info and draft
+ * checkpoints are dropped, so the import never shares drafts with its source.
+ * @throws CampaignMigrationError when the record does not match the campaign schema
+ */
+export async function importCampaign(
+	ctx: StoreContext,
+	workspaceId: string,
+	record: unknown,
+): Promise<{ campaign: Campaign; originalId: string }> {
+	const campaign = migrateCampaignRecord(record);
+	const originalId = campaign.id;
+	campaign.workspaceId = workspaceId;
+
+	const existingIds = new Set(await getCampaignRepository(ctx).listIds());
+	if (existingIds.has(campaign.id)) {
+		campaign.id = newCampaignId();
+	}
+
+	// The stored version and trash state belong to the source environment
+	delete campaign.version;
+	delete campaign.deletedAt;
+	campaign.updatedAt = new Date().toISOString();
+
+	// So do its Typefully drafts: the copy is scheduled afresh, as a clone is
+	delete campaign.schedulingInfo;
+	clearCheckpoints(campaign, "draft:");
+	const posts = [
+		...(campaign.content?.linkedInPosts ?? []),
+		...(campaign.content?.twitterThreads.flatMap((thread) => [thread, ...thread.tweets]) ?? []),
+	];
+	for (const post of posts) {
+		delete post.scheduledDate;
+		delete post.typefullyId;
+	}
+	if (SCHEDULED_STATUSES.has(campaign.status)) {
+		campaign.status = "planning";
+	}
+
+	ctx.logger.info("Importing campaign %s as %s", originalId, campaign.id);
+
+	const saved = await saveCampaign(ctx, campaign);
+	if (!saved) {
+		throw new Error(`Failed to save imported campaign ${campaign.id}`);
+	}
+
+	await appendCampaignEvent(ctx, campaign.id, { type: "status", status: campaign.status });
+
+	return { campaign, originalId };
+}
+
+/**
+ * Copy a post for a new campaign, without its scheduling or review
+ */
+function toTemplatePost({ platform, content, media }: Post): Post {
+	return { platform, content, media: media ? [...media] : [] };
+}
+
+/**
+ * Copy a campaign into a new one in the planning status, to use as a template
+ *
+ * Research and content are copied without their scheduling or reviews, and
+ * count as completed steps so the pipeline only schedules them. With a new
+ * topic the content is left out, so the Copywriter can write it afresh.
+ */
+export async function cloneCampaign(
+	ctx: StoreContext,
+	source: Campaign,
+	options: { topic?: string; publishDate?: string } = {},
+): Promise<Campaign> {
+	const now = new Date().toISOString();
+	const newTopic = options.topic && options.topic !== source.topic ? options.topic : undefined;
+
+	const campaign: Campaign = {
+		id: newCampaignId(),
+		workspaceId: source.workspaceId,
+		topic: newTopic ?? source.topic,
+		description: source.description,
+		publishDate: options.publishDate ?? source.publishDate,
+		source: source.source,
+		status: "planning",
+		...(source.requireApproval && { requireApproval: true }),
+		clonedFrom: source.id,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	if (source.research) {
+		campaign.research = JSON.parse(JSON.stringify(source.research));
+		setCheckpoint(campaign, "research", "completed");
+	}
+
+	if (source.content && !newTopic) {
+		campaign.content = {
+			linkedInPosts: source.content.linkedInPosts.map(toTemplatePost),
+			twitterThreads: source.content.twitterThreads.map((thread) => ({
+				tweets: thread.tweets.map(toTemplatePost),
+			})),
+		};
+		if (campaign.content.linkedInPosts.length > 0) setCheckpoint(campaign, "linkedin", "completed");
+		if (campaign.content.twitterThreads.length > 0) setCheckpoint(campaign, "twitter", "completed");
+	}
+
+	ctx.logger.info("Cloning campaign %s as %s", source.id, campaign.id);
+
+	const saved = await saveCampaign(ctx, campaign);
+	if (!saved) {
+		throw new Error(`Failed to save clone of campaign ${source.id}`);
+	}
+
+	await appendCampaignEvent(ctx, campaign.id, { type: "status", status: campaign.status });
+
 	return campaign;
 }
 
@@ -217,21 +387,223 @@ export async function createCampaign(
  * Update a campaign's status
  */
 export async function updateCampaignStatus(
-	ctx: AgentContext<any, unknown, AppState>,
+	ctx: StoreContext,
 	campaignId: string,
 	status: Campaign["status"],
 ): Promise<Campaign | null> {
-	const campaign = await getCampaign(ctx, campaignId);
+	ctx.logger.info("Updating campaign status: %s → %s", campaignId, status);
 
-	if (!campaign) {
-		ctx.logger.warn("Cannot update status: campaign not found: %s", campaignId);
-		return null;
+	const campaign = await updateCampaign(ctx, campaignId, (latest) => {
+		latest.status = status;
+	});
+
+	if (campaign) {
+		await appendCampaignEvent(ctx, campaignId, { type: "status", status });
 	}
+	return campaign;
+}
 
-	campaign.status = status;
-	campaign.updatedAt = new Date().toISOString();
+/**
+ * Apply changes to the latest stored copy of a campaign and save it
+ *
+ * If another writer saves the campaign in between, the update is re-applied to
+ * the newer copy, up to MAX_UPDATE_ATTEMPTS times.
+ */
+export async function updateCampaign(
+	ctx: StoreContext,
+	campaignId: string,
+	update: (campaign: Campaign) => void,
+): Promise<Campaign | null> {
+	const repository = getCampaignRepository(ctx);
 
-	ctx.logger.info("Updating campaign status: %s → %s", campaignId, status);
-	await saveCampaign(ctx, campaign);
-	return campaign;
+	for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+		const campaign = await getCampaign(ctx, campaignId);
+
+		if (!campaign) {
+			ctx.logger.warn("Cannot update: campaign not found: %s", campaignId);
+			return null;
+		}
+
+		const previous: Campaign = JSON.parse(JSON.stringify(campaign));
+		update(campaign);
+		campaign.updatedAt = new Date().toISOString();
+
+		try {
+			campaign.version = await repository.save(campaign);
+			campaign.schemaVersion = CURRENT_SCHEMA_VERSION;
+			await recordRevision(ctx, previous, campaign);
+			indexCampaign(campaign);
+			return campaign;
+		} catch (error) {
+			if (!(error instanceof CampaignConflictError)) {
+				ctx.logger.error("Failed to save campaign %s: %s", campaignId, error);
+				return null;
+			}
+
+			ctx.logger.debug(
+				"Retrying update for campaign %s after conflict (attempt %d)",
+				campaignId,
+				attempt,
+			);
+			// Back off a little, with jitter, before reading the newer copy
+			await new Promise((resolve) => setTimeout(resolve, Math.random() * 50 * attempt));
+		}
+	}
+
+	ctx.logger.error(
+		"Gave up updating campaign %s after %d conflicting attempts",
+		campaignId,
+		MAX_UPDATE_ATTEMPTS,
+	);
+	return null;
+}
+
+/**
+ * List a campaign's revisions, oldest first
+ */
+export async function listCampaignRevisions(
+	ctx: StoreContext,
+	campaignId: string,
+): Promise<CampaignRevision[]> {
+	try {
+		return await getCampaignRepository(ctx).listRevisions(campaignId);
+	} catch (error) {
+		ctx.logger.error("Failed to list revisions for campaign %s: %s", campaignId, error);
+		return [];
+	}
+}
+
+/**
+ * Restore a campaign's topic, description, research and content to an earlier revision
+ *
+ * Status, checkpoints, scheduling info and trash state are kept, so drafts that
+ * are still live in Typefully stay recorded; restored posts point at the live
+ * draft of their post ID, if any. The restore is saved as a new revision, so
+ * it can itself be undone.
+ * @throws CampaignMigrationError when the snapshot cannot be upgraded to the current schema
+ */
+export async function restoreCampaignRevision(
+	ctx: StoreContext,
+	campaignId: string,
+	revision: CampaignRevision,
+): Promise<Campaign | null> {
+	ctx.logger.info("Restoring campaign %s to version %d", campaignId, revision.version);
+
+	// Snapshots keep the schema of the time they were taken; check them before anything is written
+	const snapshot = migrateCampaignRecord(revision.snapshot);
+
+	return updateCampaign(ctx, campaignId, (latest) => {
+		latest.topic = snapshot.topic;
+		latest.description = snapshot.description;
+		latest.research = snapshot.research;
+		latest.content = snapshot.content;
+
+		const scheduledPosts = latest.schedulingInfo?.scheduledPosts ?? [];
+		const items = [
+			...(latest.content?.linkedInPosts.map((post, i) => [`linkedin-post-${i}`, post] as const) ?? []),
+			...(latest.content?.twitterThreads.map((thread, i) => [`twitter-thread-${i}`, thread] as const) ?? []),
+		];
+		for (const [postId, item] of items) {
+			const draft = scheduledPosts.find((scheduled) => scheduled.postId === postId && scheduled.typefullyId);
+			if (draft) {
+				item.scheduledDate = draft.scheduledDate;
+				item.typefullyId = draft.typefullyId;
+			} else {
+				delete item.scheduledDate;
+				delete item.typefullyId;
+			}
+		}
+	});
+}
+
+/**
+ * Outcome of migrating all stored campaigns
+ */
+export interface MigrationReport {
+	migrated: string[];
+	upToDate: number;
+	failed: { campaignId: string; error: string; issues: string[] }[];
+}
+
+/**
+ * Upgrade every stored campaign to the current schema version
+ *
+ * Campaigns are upgraded on read anyway; this rewrites the stored records so
+ * they no longer need it, and reports records that cannot be upgraded.
+ * @param dryRun Check every record without saving anything
+ */
+export async function migrateAllCampaigns(
+	ctx: StoreContext,
+	dryRun = false,
+): Promise<MigrationReport> {
+	const repository = getCampaignRepository(ctx);
+	const entries = await repository.listIndexEntries();
+	const report: MigrationReport = { migrated: [], upToDate: 0, failed: [] };
+
+	for (const entry of entries) {
+		if ((entry.schemaVersion ?? 1) === CURRENT_SCHEMA_VERSION) {
+			report.upToDate++;
+			continue;
+		}
+
+		try {
+			// Reading a campaign upgrades and validates it
+			const campaign = await repository.get(entry.id);
+			if (!campaign) continue;
+
+			if (!dryRun) {
+				const saved = await updateCampaign(ctx, entry.id, () => {});
+				if (!saved) throw new Error("Failed to save the migrated campaign");
+			}
+			report.migrated.push(entry.id);
+		} catch (error) {
+			report.failed.push({
+				campaignId: entry.id,
+				error: error instanceof Error ? error.message : String(error),
+				issues: error instanceof CampaignMigrationError ? error.issues : [],
+			});
+		}
+	}
+
+	ctx.logger.info(
+		"Campaign migration%s: %d migrated, %d up to date, %d failed",
+		dryRun ? " (dry run)" : "",
+		report.migrated.length,
+		report.upToDate,
+		report.failed.length,
+	);
+	return report;
+}
+
+/**
+ * Record a pipeline checkpoint on a campaign object
+ */
+export function setCheckpoint(
+	campaign: Campaign,
+	step: string,
+	status: Checkpoint["status"],
+	error?: string,
+): void {
+	campaign.checkpoints = {
+		...campaign.checkpoints,
+		[step]: { status, updatedAt: new Date().toISOString(), error },
+	};
+}
+
+/**
+ * Check whether a pipeline step has completed for a campaign
+ */
+export function isStepCompleted(campaign: Campaign, step: string): boolean {
+	return campaign.checkpoints?.[step]?.status === "completed";
+}
+
+/**
+ * Remove every checkpoint whose step starts with the given prefix
+ */
+export function clearCheckpoints(campaign: Campaign, prefix: string): void {
+	if (!campaign.checkpoints) return;
+
+	campaign.checkpoints = Object.fromEntries(
+		Object.entries(campaign.checkpoints).filter(([step]) => !step.startsWith(prefix)),
+	);
 }
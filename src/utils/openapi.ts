@@ -0,0 +1,769 @@
+/**
+ * OpenAPI 3.1 document for the HTTP API
+ *
+ * Paths come from the routes registered on the routers, and request and
+ * response schemas are converted from the zod schemas in src/types, so the
+ * document follows both without being edited by hand. Operations describe
+ * what the route table cannot know: summaries, bodies and responses.
+ */
+
+import { z } from "zod";
+import {
+	type ApiKeyRole,
+	ApiKeyCreateRequestSchema,
+	ApiKeySchema,
+	CampaignBundleSchema,
+	CampaignCloneRequestSchema,
+	CampaignCreateRequestSchema,
+	CampaignEventSchema,
+	CampaignImportRequestSchema,
+	CampaignListQuerySchema,
+	CampaignRevisionSchema,
+	CampaignSchema,
+	CampaignStatusSchema,
+	CampaignUpdateRequestSchema,
+	CopywriterOutputSchema,
+	JobSchema,
+	JobStatusSchema,
+	ManagerOutputSchema,
+	ManagerRequestSchema,
+	PostCreateRequestSchema,
+	PostUpdateRequestSchema,
+	PublishNotificationSchema,
+	PurgeTrashRequestSchema,
+	RegenerateRequestSchema,
+	RejectRequestSchema,
+	ReorderRequestSchema,
+	SchedulerOutputSchema,
+	SearchHitSchema,
+	SearchQuerySchema,
+	ThreadCreateRequestSchema,
+	WorkspaceSchema,
+	WorkspaceUpdateSchema,
+} from "../types";
+import { API_KEY_HEADER, getRequiredRole, hasRole } from "./api-key-store";
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from "./idempotency-store";
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "./webhook-signature";
+import { WORKSPACE_HEADER } from "./workspace-store";
+
+// A route as registered on a router
+interface RegisteredRoute {
+	method: string;
+	path: string;
+}
+
+/**
+ * Routes of one router and the path it is mounted at
+ */
+export interface MountedRouter {
+	prefix: string;
+	routes: RegisteredRoute[];
+}
+
+// A response: a zod schema for JSON, or another media type with an optional schema
+type ResponseSpec =
+	| { description: string; schema: z.ZodType }
+	| { description: string; content: Record<string, { schema?: z.ZodType }> }
+	| { description: string };
+
+interface OperationSpec {
+	summary: string;
+	tag: string;
+	body?: z.ZodType;
+	query?: z.ZodObject;
+	responses: Record<number, ResponseSpec>;
+	/** Set to false for routes that ignore the workspace header */
+	workspace?: false;
+	/** API key role the route needs beyond what its method needs */
+	role?: ApiKeyRole;
+	/** Whether the route honors the Idempotency-Key header */
+	idempotent?: true;
+	/** How the route is authenticated instead of with an API key */
+	authentication?: string;
+}
+
+// Response schemas are shared as components, by name
+const components = z.registry<{ id: string }>();
+
+function component<T extends z.ZodType>(id: string, schema: T): T {
+	components.add(schema, { id });
+	return schema;
+}
+
+const Campaign = component("Campaign", CampaignSchema);
+const ErrorResponse = component(
+	"Error",
+	z.object({
+		error: z.string(),
+		// Schema problems, for records that fail validation
+		issues: z.array(z.string()).optional(),
+	}),
+);
+const CampaignResponse = component("CampaignResponse", z.object({ campaign: Campaign }));
+const CampaignItemResponse = component(
+	"CampaignItemResponse",
+	z.object({ campaign: Campaign, index: z.number().int() }),
+);
+const ReviewResponse = component(
+	"ReviewResponse",
+	z.object({ campaign: Campaign, schedulerResult: component("SchedulerOutput", SchedulerOutputSchema).optional() }),
+);
+const ApiKey = component("ApiKey", ApiKeySchema);
+const ManagerOutput = component("ManagerOutput", ManagerOutputSchema);
+const Job = component("Job", JobSchema);
+const WorkspaceResponse = component(
+	"WorkspaceResponse",
+	z.object({
+		workspace: component(
+			"Workspace",
+			WorkspaceSchema.omit({ typefullyApiKey: true }).extend({ hasTypefullyApiKey: z.boolean() }),
+		),
+	}),
+);
+const ImportResponse = component(
+	"ImportResponse",
+	z.object({
+		imported: z.array(z.object({ originalId: z.string(), campaignId: z.string(), renamed: z.boolean() })),
+		failed: z.array(z.object({ index: z.number().int(), error: z.string(), issues: z.array(z.string()) })),
+	}),
+);
+
+const operations: Record<string, OperationSpec> = {
+	"GET /api/openapi.json": {
+		summary: "Get this OpenAPI document",
+		tag: "Meta",
+		workspace: false,
+		responses: { 200: { description: "The OpenAPI 3.1 document" } },
+	},
+	"POST /api/chat": {
+		summary: "Create a campaign from a topic or free text through the Manager",
+		tag: "Chat",
+		body: ManagerRequestSchema,
+		idempotent: true,
+		responses: {
+			200: { description: "Pipeline result, or the existing campaigns to choose from", schema: ManagerOutput },
+			202: {
+				description: "Queued as a background job (`?async=true` or `Prefer: respond-async`)",
+				schema: component(
+					"JobAccepted",
+					z.object({ jobId: z.string(), status: JobStatusSchema, statusUrl: z.string() }),
+				),
+			},
+		},
+	},
+	"GET /api/campaigns": {
+		summary: "List campaigns, one page at a time",
+		tag: "Campaigns",
+		query: CampaignListQuerySchema,
+		responses: {
+			200: {
+				description: "A page of campaigns",
+				schema: component(
+					"CampaignPage",
+					z.object({ campaigns: z.array(Campaign), nextCursor: z.string().nullable(), total: z.number().int() }),
+				),
+			},
+		},
+	},
+	"POST /api/campaigns": {
+		summary: "Create a campaign without the Manager",
+		tag: "Campaigns",
+		idempotent: true,
+		body: CampaignCreateRequestSchema,
+		responses: { 201: { description: "The new campaign", schema: CampaignResponse } },
+	},
+	"GET /api/campaigns/trash": {
+		summary: "List trashed campaigns",
+		tag: "Trash",
+		responses: {
+			200: {
+				description: "Trashed campaigns, most recently deleted first",
+				schema: component(
+					"TrashList",
+					z.object({
+						retentionDays: z.number().int(),
+						campaigns: z.array(z.object({ campaign: Campaign, purgeAt: z.string(), expired: z.boolean() })),
+					}),
+				),
+			},
+		},
+	},
+	"POST /api/campaigns/trash/purge": {
+		summary: "Permanently delete expired or selected trashed campaigns",
+		tag: "Trash",
+		role: "admin",
+		body: PurgeTrashRequestSchema,
+		responses: {
+			200: {
+				description: "The outcome for each campaign",
+				schema: component(
+					"PurgeResults",
+					z.object({
+						results: z.array(
+							z.object({
+								campaignId: z.string(),
+								purged: z.boolean(),
+								schedulerResult: SchedulerOutputSchema.optional(),
+								error: z.string().optional(),
+							}),
+						),
+					}),
+				),
+			},
+		},
+	},
+	"POST /api/campaigns/migrate": {
+		summary: "Rewrite every stored campaign, in every workspace, at the current schema version",
+		tag: "Storage",
+		role: "admin",
+		query: z.object({ dryRun: z.enum(["true", "false"]).optional() }),
+		responses: {
+			200: {
+				description: "Migration report",
+				schema: component(
+					"MigrationReport",
+					z.object({
+						dryRun: z.boolean(),
+						migrated: z.array(z.string()),
+						upToDate: z.number().int(),
+						failed: z.array(
+							z.object({ campaignId: z.string(), error: z.string(), issues: z.array(z.string()) }),
+						),
+					}),
+				),
+			},
+		},
+	},
+	"POST /api/campaigns/import": {
+		summary: "Import one or more campaign bundles",
+		tag: "Storage",
+		idempotent: true,
+		body: CampaignImportRequestSchema,
+		responses: {
+			200: { description: "Imported and failed bundles", schema: ImportResponse },
+			400: { description: "No bundle could be imported", schema: ImportResponse },
+		},
+	},
+	"GET /api/campaigns/:id": {
+		summary: "Get a campaign",
+		tag: "Campaigns",
+		responses: {
+			200: { description: "The campaign", schema: CampaignResponse },
+			422: { description: "The stored record does not match the campaign schema", schema: ErrorResponse },
+		},
+	},
+	"PATCH /api/campaigns/:id": {
+		summary: "Change a campaign's details",
+		tag: "Campaigns",
+		body: CampaignUpdateRequestSchema,
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The campaign is in the trash", schema: ErrorResponse },
+		},
+	},
+	"GET /api/campaigns/:id/events": {
+		summary: "Stream a campaign's progress events",
+		tag: "Campaigns",
+		responses: {
+			200: {
+				description: "Server-sent events, ending with a `done` event",
+				content: { "text/event-stream": { schema: component("CampaignEvent", CampaignEventSchema) } },
+			},
+		},
+	},
+	"POST /api/campaigns/:id/resume": {
+		summary: "Resume a campaign's pipeline from its first incomplete step",
+		tag: "Campaigns",
+		idempotent: true,
+		responses: {
+			200: {
+				description: "The step resumed from and the pipeline result",
+				schema: component(
+					"ResumeResult",
+					z.object({ resumedFrom: z.string().nullable(), result: ManagerOutput }),
+				),
+			},
+			409: { description: "The campaign is trashed or has nothing left to do", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/clone": {
+		summary: "Clone a campaign as a template",
+		tag: "Campaigns",
+		idempotent: true,
+		body: CampaignCloneRequestSchema,
+		responses: {
+			201: {
+				description: "The clone; with a new topic, its content is being rewritten",
+				schema: component("CloneResult", z.object({ campaign: Campaign, rewriting: z.boolean() })),
+			},
+		},
+	},
+	"GET /api/campaigns/:id/export": {
+		summary: "Export a campaign as a bundle, CSV or Markdown",
+		tag: "Storage",
+		query: z.object({ format: z.enum(["json", "csv", "markdown"]).optional() }),
+		responses: {
+			200: {
+				description: "The export, as a download",
+				content: {
+					"application/json": { schema: component("CampaignBundle", CampaignBundleSchema) },
+					"text/csv": {},
+					"text/markdown": {},
+				},
+			},
+		},
+	},
+	"GET /api/campaigns/:id/history": {
+		summary: "List a campaign's revisions",
+		tag: "Revisions",
+		responses: {
+			200: {
+				description: "Revisions, oldest first, without their snapshots",
+				schema: component(
+					"RevisionList",
+					z.object({ revisions: z.array(CampaignRevisionSchema.omit({ snapshot: true })) }),
+				),
+			},
+		},
+	},
+	"POST /api/campaigns/:id/revisions/:version/restore": {
+		summary: "Restore a campaign to an earlier revision",
+		tag: "Revisions",
+		responses: {
+			200: {
+				description: "The restored campaign",
+				schema: component("RestoreResult", z.object({ campaign: Campaign, restoredFrom: z.number().int() })),
+			},
+			422: { description: "The revision cannot be upgraded to the current campaign schema", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/linkedin-posts": {
+		summary: "Add a LinkedIn post",
+		tag: "Content",
+		body: PostCreateRequestSchema,
+		responses: { 201: { description: "The campaign and the new post's index", schema: CampaignItemResponse } },
+	},
+	"POST /api/campaigns/:id/linkedin-posts/reorder": {
+		summary: "Reorder LinkedIn posts",
+		tag: "Content",
+		body: ReorderRequestSchema,
+		responses: { 200: { description: "The updated campaign", schema: CampaignResponse } },
+	},
+	"PATCH /api/campaigns/:id/linkedin-posts/:index": {
+		summary: "Edit a LinkedIn post",
+		tag: "Content",
+		body: PostUpdateRequestSchema,
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The post already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"DELETE /api/campaigns/:id/linkedin-posts/:index": {
+		summary: "Remove a LinkedIn post",
+		tag: "Content",
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The post already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/twitter-threads": {
+		summary: "Add a Twitter thread",
+		tag: "Content",
+		body: ThreadCreateRequestSchema,
+		responses: { 201: { description: "The campaign and the new thread's index", schema: CampaignItemResponse } },
+	},
+	"DELETE /api/campaigns/:id/twitter-threads/:threadIndex": {
+		summary: "Remove a Twitter thread",
+		tag: "Content",
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The thread already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets": {
+		summary: "Add a tweet to a thread",
+		tag: "Content",
+		body: PostCreateRequestSchema,
+		responses: {
+			201: { description: "The campaign and the new tweet's index", schema: CampaignItemResponse },
+			409: { description: "The thread already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/twitter-threads/:threadIndex/tweets/reorder": {
+		summary: "Reorder the tweets of a thread",
+		tag: "Content",
+		body: ReorderRequestSchema,
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The thread already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"PATCH /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex": {
+		summary: "Edit a tweet",
+		tag: "Content",
+		body: PostUpdateRequestSchema,
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The thread already has a Typefully draft", schema: ErrorResponse },
+		},
+	},
+	"DELETE /api/campaigns/:id/twitter-threads/:threadIndex/tweets/:tweetIndex": {
+		summary: "Remove a tweet",
+		tag: "Content",
+		responses: {
+			200: { description: "The updated campaign", schema: CampaignResponse },
+			409: { description: "The thread has a Typefully draft or only this tweet", schema: ErrorResponse },
+		},
+	},
+	"DELETE /api/campaigns/:id": {
+		summary: "Move a campaign to the trash",
+		tag: "Trash",
+		role: "admin",
+		responses: {
+			200: {
+				description: "The campaign was trashed",
+				schema: component("DeleteResult", z.object({ success: z.boolean(), message: z.string() })),
+			},
+			409: { description: "The campaign is already in the trash", schema: ErrorResponse },
+		},
+	},
+	"POST /api/campaigns/:id/restore": {
+		summary: "Take a campaign out of the trash",
+		tag: "Trash",
+		responses: {
+			200: { description: "The restored campaign", schema: CampaignResponse },
+			409: { description: "The campaign is not in the trash", schema: ErrorResponse },
+		},
+	},
+	"GET /api/jobs": {
+		summary: "List background jobs",
+		tag: "Jobs",
+		query: z.object({ status: JobStatusSchema.optional() }),
+		responses: {
+			200: { description: "Jobs", schema: component("JobList", z.object({ jobs: z.array(Job) })) },
+		},
+	},
+	"GET /api/jobs/:id": {
+		summary: "Get a background job",
+		tag: "Jobs",
+		responses: {
+			200: { description: "The job", schema: component("JobResponse", z.object({ job: Job })) },
+		},
+	},
+	"GET /api/search": {
+		summary: "Search campaigns and posts",
+		tag: "Search",
+		query: SearchQuerySchema,
+		responses: {
+			200: {
+				description: "Ranked hits",
+				schema: component(
+					"SearchResults",
+					z.object({ query: z.string(), hits: z.array(component("SearchHit", SearchHitSchema)) }),
+				),
+			},
+		},
+	},
+	"GET /api/workspace": {
+		summary: "Get the workspace's settings",
+		tag: "Workspace",
+		responses: {
+			200: { description: "The workspace", schema: WorkspaceResponse },
+		},
+	},
+	"GET /api/keys": {
+		summary: "List the workspace's API keys, including revoked ones",
+		tag: "API keys",
+		role: "admin",
+		responses: {
+			200: { description: "API keys, newest first", schema: component("ApiKeyList", z.object({ keys: z.array(ApiKey) })) },
+		},
+	},
+	"POST /api/keys": {
+		summary: "Create an API key for the workspace",
+		tag: "API keys",
+		role: "admin",
+		body: ApiKeyCreateRequestSchema,
+		responses: {
+			201: {
+				description: "The new key; `key` is only returned here",
+				schema: component("ApiKeyCreated", z.object({ apiKey: ApiKey, key: z.string() })),
+			},
+		},
+	},
+	"DELETE /api/keys/:id": {
+		summary: "Revoke an API key",
+		tag: "API keys",
+		role: "admin",
+		responses: {
+			200: { description: "The revoked key", schema: component("ApiKeyResponse", z.object({ apiKey: ApiKey })) },
+		},
+	},
+	"POST /api/webhooks/typefully": {
+		summary: "Record that a Typefully draft was published or failed to publish",
+		tag: "Webhooks",
+		workspace: false,
+		authentication:
+			`Signed with TYPEFULLY_WEBHOOK_SECRET instead of an API key: \`${WEBHOOK_SIGNATURE_HEADER}\` is ` +
+			`\`sha256=\` and the hex HMAC-SHA256 of \`${WEBHOOK_TIMESTAMP_HEADER}\`, a dot and the raw body.`,
+		body: PublishNotificationSchema,
+		responses: {
+			200: {
+				description: "The outcome was recorded, or ignored because the post was already published",
+				schema: component(
+					"PublishOutcome",
+					z.object({
+						campaignId: z.string(),
+						postId: z.string(),
+						status: PublishNotificationSchema.shape.status,
+						ignored: z.boolean(),
+						campaignStatus: CampaignStatusSchema,
+					}),
+				),
+			},
+			404: { description: "No scheduled post has this Typefully ID", schema: ErrorResponse },
+			503: { description: "TYPEFULLY_WEBHOOK_SECRET is not set", schema: ErrorResponse },
+		},
+	},
+	"PUT /api/workspace": {
+		summary: "Change the workspace's settings; changing `typefullyApiKey` needs the admin role",
+		tag: "Workspace",
+		body: WorkspaceUpdateSchema,
+		responses: {
+			200: { description: "The updated workspace", schema: WorkspaceResponse },
+		},
+	},
+};
+
+// Regenerate, approve and reject work the same way for posts and threads
+for (const [kind, label, resultId] of [
+	["posts", "LinkedIn post", "RegeneratePostResult"],
+	["threads", "Twitter thread", "RegenerateThreadResult"],
+] as const) {
+	const base = `/api/campaigns/:id/${kind}/:postId`;
+
+	operations[`POST ${base}/regenerate`] = {
+		summary: `Rewrite a ${label} with optional guidance`,
+		tag: "Review",
+		idempotent: true,
+		body: RegenerateRequestSchema,
+		responses: {
+			200: {
+				description: "The updated campaign and the Copywriter result",
+				schema: component(
+					resultId,
+					z.object({ campaign: Campaign, result: CopywriterOutputSchema }),
+				),
+			},
+			409: { description: "The campaign is in the trash", schema: ErrorResponse },
+			502: { description: "The Copywriter failed", schema: ErrorResponse },
+		},
+	};
+	operations[`POST ${base}/approve`] = {
+		summary: `Approve a ${label} for scheduling`,
+		tag: "Review",
+		idempotent: true,
+		responses: { 200: { description: "The campaign, and the scheduler result if it ran", schema: ReviewResponse } },
+	};
+	operations[`POST ${base}/reject`] = {
+		summary: `Reject a ${label}, cancelling its Typefully draft`,
+		tag: "Review",
+		idempotent: true,
+		body: RejectRequestSchema,
+		responses: { 200: { description: "The campaign, and the scheduler result if it ran", schema: ReviewResponse } },
+	};
+}
+
+const JSON_SCHEMA_OPTIONS = {
+	target: "draft-2020-12",
+	unrepresentable: "any",
+	uri: (id: string) => `#/components/schemas/${id}`,
+} as const;
+
+/**
+ * Convert a schema for use inside the document, dropping the standalone JSON Schema keys
+ */
+function toSchema(schema: z.ZodType, io: "input" | "output"): Record<string, unknown> {
+	const id = components.get(schema)?.id;
+	if (id && io === "output") {
+		return { $ref: JSON_SCHEMA_OPTIONS.uri(id) };
+	}
+
+	const { $schema: _schema, ...rest } = z.toJSONSchema(schema, { ...JSON_SCHEMA_OPTIONS, io });
+	return rest;
+}
+
+function toResponse(spec: ResponseSpec): Record<string, unknown> {
+	if ("schema" in spec) {
+		return { description: spec.description, content: { "application/json": { schema: toSchema(spec.schema, "output") } } };
+	}
+	if ("content" in spec) {
+		const content = Object.fromEntries(
+			Object.entries(spec.content).map(([type, media]) => [
+				type,
+				media.schema ? { schema: toSchema(media.schema, "output") } : {},
+			]),
+		);
+		return { description: spec.description, content };
+	}
+	return { description: spec.description };
+}
+
+function toParameters(path: string, spec: OperationSpec): Record<string, unknown>[] {
+	const parameters: Record<string, unknown>[] =
+		spec.workspace === false ? [] : [{ $ref: "#/components/parameters/WorkspaceId" }];
+	if (spec.idempotent) {
+		parameters.push({ $ref: "#/components/parameters/IdempotencyKey" });
+	}
+
+	for (const segment of path.split("/")) {
+		if (segment.startsWith(":")) {
+			parameters.push({ name: segment.slice(1), in: "path", required: true, schema: { type: "string" } });
+		}
+	}
+
+	const query = spec.query;
+
+	if (query) {
+		const schema = toSchema(query, "input") as { properties?: Record<string, unknown>; required?: string[] };
+		for (const [name, property] of Object.entries(schema.properties ?? {})) {
+			parameters.push({ name, in: "query", required: schema.required?.includes(name) ?? false, schema: property });
+		}
+	}
+
+	return parameters;
+}
+
+/**
+ * Build the operation for a route, adding the error responses every route of its kind can return
+ */
+function toOperation(method: string, path: string, spec: OperationSpec): Record<string, unknown> {
+	const errors: Record<number, ResponseSpec> = {};
+	if (spec.body || spec.query || spec.workspace !== false) {
+		errors[400] = { description: "Invalid request or workspace ID", schema: ErrorResponse };
+	}
+	if (path.includes(":")) {
+		errors[404] = { description: "Not found in this workspace", schema: ErrorResponse };
+	}
+	if (spec.idempotent) {
+		errors[409] = { description: "A request with the same Idempotency-Key is still in progress", schema: ErrorResponse };
+		errors[422] = { description: "The Idempotency-Key was already used for a different request", schema: ErrorResponse };
+	}
+	const methodRole = getRequiredRole(method);
+	const role = spec.role && !hasRole(methodRole, spec.role) ? spec.role : methodRole;
+	if (spec.authentication) {
+		errors[401] = { description: "The request could not be authenticated", schema: ErrorResponse };
+	} else {
+		errors[401] = { description: "Missing, invalid or revoked API key", schema: ErrorResponse };
+		const forbidden = [
+			...(role !== "viewer" ? [`does not have the ${role} role`] : []),
+			...(spec.workspace !== false ? ["belongs to another workspace than the one requested"] : []),
+		];
+		if (forbidden.length > 0) {
+			errors[403] = { description: `The API key ${forbidden.join(", or ")}`, schema: ErrorResponse };
+		}
+	}
+	errors[500] = { description: "Unexpected error", schema: ErrorResponse };
+
+	const responses = { ...errors, ...spec.responses };
+
+	return {
+		// e.g. postCampaignsByIdLinkedinPostsReorder
+		operationId: [method.toLowerCase(), ...path.split("/").slice(2)]
+			.map((segment) => segment.replace(/^:/, "by-"))
+			.join("-")
+			.replace(/[-.](\w)/g, (_, char: string) => char.toUpperCase()),
+		summary: spec.summary,
+		description: spec.authentication ?? `Needs an API key with the ${role} role or higher.`,
+		...(spec.authentication && { security: [] }),
+		tags: [spec.tag],
+		parameters: toParameters(path, spec),
+		...(spec.body && {
+			requestBody: {
+				required: true,
+				content: { "application/json": { schema: toSchema(spec.body, "input") } },
+			},
+		}),
+		responses: {
+			...Object.fromEntries(Object.entries(responses).map(([status, response]) => [status, toResponse(response)])),
+			429: { $ref: "#/components/responses/TooManyRequests" },
+		},
+	};
+}
+
+/**
+ * Build the OpenAPI document for the routes registered on the given routers
+ *
+ * Routes without a described operation are still listed, with a generic response.
+ */
+export function buildOpenApiDocument(routers: MountedRouter[]): Record<string, unknown> {
+	const paths: Record<string, Record<string, unknown>> = {};
+
+	for (const { prefix, routes } of routers) {
+		for (const route of routes) {
+			// Middleware is registered for every method
+			if (route.method === "ALL") continue;
+
+			const path = route.path === "/" ? prefix : `${prefix}${route.path}`;
+			const method = route.method.toLowerCase();
+			const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+
+			paths[openApiPath] ??= {};
+			if (paths[openApiPath][method]) continue;
+
+			const spec = operations[`${route.method} ${path}`] ?? {
+				summary: `${route.method} ${path}`,
+				tag: "Other",
+				responses: { 200: { description: "Success" } },
+			};
+			paths[openApiPath][method] = toOperation(route.method, path, spec);
+		}
+	}
+
+	const { schemas } = z.toJSONSchema(components, { ...JSON_SCHEMA_OPTIONS, io: "output" });
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "Content Marketing Agent Swarm API",
+			version: "1.0.0",
+		},
+		security: [{ ApiKeyHeader: [] }, { BearerAuth: [] }],
+		paths,
+		components: {
+			schemas: Object.fromEntries(
+				Object.entries(schemas).map(([id, { $schema: _schema, $id: _id, ...schema }]) => [id, schema]),
+			),
+			responses: {
+				TooManyRequests: {
+					description: "Rate limit exceeded or, for routes that generate content, too many generations in progress",
+					headers: {
+						"Retry-After": { description: "Seconds to wait before retrying", schema: { type: "integer" } },
+					},
+					content: { "application/json": { schema: { $ref: JSON_SCHEMA_OPTIONS.uri("Error") } } },
+				},
+			},
+			securitySchemes: {
+				ApiKeyHeader: { type: "apiKey", in: "header", name: API_KEY_HEADER },
+				BearerAuth: { type: "http", scheme: "bearer" },
+			},
+			parameters: {
+				IdempotencyKey: {
+					name: IDEMPOTENCY_KEY_HEADER,
+					in: "header",
+					required: false,
+					description: `Makes the request safe to retry: repeats replay the first response, with \`${IDEMPOTENT_REPLAYED_HEADER}: true\``,
+					schema: { type: "string", maxLength: 255 },
+				},
+				WorkspaceId: {
+					name: WORKSPACE_HEADER,
+					in: "header",
+					required: false,
+					description:
+						"Workspace of the request; defaults to the API key's workspace, and must match it if sent",
+					schema: { type: "string" },
+				},
+			},
+		},
+	};
+}
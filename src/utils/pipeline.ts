@@ -0,0 +1,130 @@
+import type {
+	Campaign,
+	CampaignHandoff,
+	CopywriterOutput,
+	JobProgress,
+	ManagerOutput,
+	SchedulerOutput,
+} from "../types";
+import researcherAgent from "../agent/researcher";
+import { errorResponse } from "./response-utils";
+import { isStepCompleted } from "./kv-store";
+import { canSchedule } from "./review";
+
+/**
+ * Build the pipeline handoff payload for a stored campaign
+ */
+export function toCampaignHandoff(campaign: Campaign): CampaignHandoff {
+	return {
+		topic: campaign.topic,
+		description: campaign.description || null,
+		campaignId: campaign.id,
+		publishDate: campaign.publishDate || null,
+		source: campaign.source || null,
+	};
+}
+
+/**
+ * Run the campaign pipeline: researcher → copywriter → scheduler
+ *
+ * Each agent skips steps that already have a completed checkpoint, so running
+ * the pipeline again for an existing campaign resumes it from the first
+ * incomplete step.
+ */
+export async function runCampaignPipeline(
+	handoff: CampaignHandoff,
+): Promise<Extract<ManagerOutput, { status: "success" | "error" }>> {
+	const researcherResult = await researcherAgent.run({
+		topic: handoff.topic,
+		description: handoff.description || undefined,
+		source: handoff.source || undefined,
+		campaignId: handoff.campaignId,
+		publishDate: handoff.publishDate || undefined,
+	});
+
+	if (researcherResult.status === "error") {
+		return errorResponse(`Research failed: ${researcherResult.error}`);
+	}
+
+	const { copywriterResult } = researcherResult;
+	const schedulerResult =
+		copywriterResult?.status === "success"
+			? copywriterResult.schedulerResult
+			: undefined;
+
+	return {
+		status: "success",
+		message: describePipelineResult(copywriterResult, schedulerResult),
+		campaign: handoff,
+		research: researcherResult.research,
+		copywriterResult,
+		schedulerResult,
+	};
+}
+
+/**
+ * Find the first pipeline step that has not completed for a campaign
+ *
+ * Posts and threads that cannot be scheduled yet, because they were rejected
+ * or still await approval, have no draft step.
+ * @returns The checkpoint key of the step, or null when every step is done
+ */
+export function getNextPipelineStep(campaign: Campaign): string | null {
+	const steps = ["research", "linkedin", "twitter"];
+
+	campaign.content?.linkedInPosts.forEach((post, i) => {
+		if (post.content && canSchedule(campaign, post)) steps.push(`draft:linkedin-post-${i}`);
+	});
+	campaign.content?.twitterThreads.forEach((thread, i) => {
+		if (thread.tweets.length && canSchedule(campaign, thread)) steps.push(`draft:twitter-thread-${i}`);
+	});
+
+	return steps.find((step) => !isStepCompleted(campaign, step)) ?? null;
+}
+
+// Rough share of the pipeline done once a campaign reaches each status
+const STAGE_PERCENT: Record<Campaign["status"], number> = {
+	planning: 5,
+	researching: 15,
+	writing: 40,
+	scheduling: 75,
+	active: 100,
+	completed: 100,
+};
+
+/**
+ * Describe how far a campaign has progressed through the pipeline
+ */
+export function getPipelineProgress(campaign: Campaign): JobProgress {
+	return {
+		stage: campaign.status,
+		percent: STAGE_PERCENT[campaign.status],
+		nextStep: getNextPipelineStep(campaign),
+	};
+}
+
+/**
+ * Summarize how far the campaign got through the pipeline
+ */
+function describePipelineResult(
+	copywriterResult?: CopywriterOutput,
+	schedulerResult?: SchedulerOutput,
+): string {
+	if (!copywriterResult) {
+		return "Campaign created and researched, but no content was generated";
+	}
+
+	if (copywriterResult.status === "error") {
+		return `Campaign researched, but content generation failed: ${copywriterResult.error}`;
+	}
+
+	if (!schedulerResult) {
+		return "Campaign researched and content generated, but nothing was scheduled";
+	}
+
+	if (schedulerResult.status === "error") {
+		return `Campaign researched and content generated, but scheduling failed: ${schedulerResult.error}`;
+	}
+
+	return `Campaign researched, written and scheduled: ${schedulerResult.message}`;
+}
@@ -0,0 +1,168 @@
+import type { Campaign, PublishNotification } from "../types";
+import { getCampaignRepository } from "./campaign-repository";
+import { appendCampaignEvent } from "./event-store";
+import { type StoreContext, updateCampaign } from "./kv-store";
+import { getNextPipelineStep } from "./pipeline";
+import { countAwaitingApproval } from "./review";
+
+const TYPEFULLY_DRAFTS_STORE = "typefully_drafts";
+
+// Only campaigns that have reached scheduling can have Typefully drafts
+const SCHEDULED_STATUSES = new Set<Campaign["status"]>(["scheduling", "active", "completed"]);
+
+/**
+ * Result of recording a publish notification
+ */
+export interface PublishOutcome {
+	campaign: Campaign;
+	postId: string;
+	/** Whether this notification published the campaign's last post */
+	completed: boolean;
+	/** Whether the notification was ignored because the post had already been published */
+	ignored: boolean;
+}
+
+/**
+ * Remember which campaign a Typefully draft belongs to, so publish
+ * notifications can find it without loading every campaign
+ */
+export async function indexTypefullyDraft(
+	ctx: StoreContext,
+	typefullyId: string,
+	campaignId: string,
+): Promise<void> {
+	if (!typefullyId) return;
+
+	try {
+		await ctx.kv.set(TYPEFULLY_DRAFTS_STORE, typefullyId, { campaignId });
+	} catch (error) {
+		ctx.logger.warn("Failed to index Typefully draft %s: %s", typefullyId, error);
+	}
+}
+
+function hasDraft(campaign: Campaign | null, typefullyId: string): campaign is Campaign {
+	return Boolean(campaign?.schedulingInfo?.scheduledPosts.some((post) => post.typefullyId === typefullyId));
+}
+
+/**
+ * Find the campaign with a Typefully draft
+ *
+ * Drafts are looked up in the draft index. Drafts created before the index
+ * existed are found by loading the campaigns that have reached scheduling,
+ * and are indexed on the way.
+ */
+async function findCampaignByTypefullyId(ctx: StoreContext, typefullyId: string): Promise<Campaign | null> {
+	const repository = getCampaignRepository(ctx);
+
+	const result = await ctx.kv.get(TYPEFULLY_DRAFTS_STORE, typefullyId);
+	const indexed = result?.data as unknown as { campaignId: string } | undefined;
+	if (indexed?.campaignId) {
+		const campaign = await repository.get(indexed.campaignId);
+		if (hasDraft(campaign, typefullyId)) return campaign;
+	}
+
+	const entries = await repository.listIndexEntries();
+
+	for (const entry of entries) {
+		if (entry.trashed || !SCHEDULED_STATUSES.has(entry.status)) continue;
+
+		const campaign = await repository.get(entry.id);
+		if (hasDraft(campaign, typefullyId)) {
+			await indexTypefullyDraft(ctx, typefullyId, campaign.id);
+			return campaign;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check whether every post of a campaign has been published
+ *
+ * Cancelled drafts do not count, but posts still awaiting approval or a draft do.
+ */
+export function isCampaignPublished(campaign: Campaign): boolean {
+	const drafts = (campaign.schedulingInfo?.scheduledPosts ?? []).filter((post) => post.status !== "cancelled");
+
+	return (
+		drafts.length > 0 &&
+		drafts.every((post) => post.status === "published") &&
+		countAwaitingApproval(campaign) === 0 &&
+		getNextPipelineStep(campaign) === null
+	);
+}
+
+/**
+ * Record that a Typefully draft was published or failed to publish
+ *
+ * The campaign moves to completed once every post has been published.
+ * Repeated notifications leave the campaign as it is, and a failure reported
+ * after the post was published is ignored, since notifications can arrive out of order.
+ * @returns The outcome, or null if no campaign has a draft with this ID
+ */
+export async function recordPublishOutcome(
+	ctx: StoreContext,
+	notification: PublishNotification,
+): Promise<PublishOutcome | null> {
+	const found = await findCampaignByTypefullyId(ctx, notification.typefullyId);
+	if (!found) return null;
+
+	const error = notification.status === "failed" ? (notification.error ?? "Publishing failed") : undefined;
+	let postId: string | undefined;
+	let completed = false;
+	let ignored = false;
+
+	const campaign = await updateCampaign(ctx, found.id, (latest) => {
+		const post = latest.schedulingInfo?.scheduledPosts.find(
+			(scheduled) => scheduled.typefullyId === notification.typefullyId,
+		);
+		postId = post?.postId;
+		completed = false;
+		ignored = post?.status === "published" && notification.status === "failed";
+		if (!post || ignored) return;
+
+		post.status = notification.status;
+		if (error) {
+			post.error = error;
+		} else {
+			post.publishedAt = notification.publishedAt ?? post.publishedAt ?? new Date().toISOString();
+			delete post.error;
+		}
+
+		if (latest.status !== "completed" && isCampaignPublished(latest)) {
+			latest.status = "completed";
+			completed = true;
+		}
+	});
+
+	if (!campaign) {
+		throw new Error(`Failed to save publish outcome for campaign ${found.id}`);
+	}
+	// The draft was removed between the lookup and the update
+	if (!postId) return null;
+
+	if (ignored) {
+		ctx.logger.info(
+			"Ignoring %s notification for post %s of campaign %s: already published",
+			notification.status,
+			postId,
+			campaign.id,
+		);
+		return { campaign, postId, completed, ignored };
+	}
+
+	ctx.logger.info("Post %s of campaign %s %s", postId, campaign.id, notification.status);
+
+	await appendCampaignEvent(ctx, campaign.id, {
+		type: "publish_outcome",
+		postId,
+		typefullyId: notification.typefullyId,
+		status: notification.status,
+		error,
+	});
+	if (completed) {
+		await appendCampaignEvent(ctx, campaign.id, { type: "status", status: "completed" });
+	}
+
+	return { campaign, postId, completed, ignored };
+}
@@ -0,0 +1,135 @@
+import { getAuthenticatedKeyId } from "./api-key-store";
+
+// Constants
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_BURST = 20;
+// Forget the least recently seen clients once this many are tracked
+const MAX_TRACKED_CLIENTS = 10000;
+
+// Tokens left for a client, as of the last time they were counted
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+interface RateLimitedContext {
+	req: { raw: Request };
+	/** The Bun server, which knows the address of the connection */
+	env?: unknown;
+	json(body: { error: string }, status: 429, headers: Record<string, string>): Response;
+}
+
+// Client → bucket, least recently seen first; each process keeps its own
+const buckets = new Map<string, Bucket>();
+
+function readLimit(name: string, fallback: number): number {
+	const value = Number.parseFloat(process.env[name] || "");
+	return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Rate limit settings: tokens refill at RATE_LIMIT_PER_MINUTE, up to RATE_LIMIT_BURST
+ */
+function getRateLimit(): { perMinute: number; burst: number } {
+	return {
+		perMinute: readLimit("RATE_LIMIT_PER_MINUTE", DEFAULT_REQUESTS_PER_MINUTE),
+		burst: readLimit("RATE_LIMIT_BURST", DEFAULT_BURST),
+	};
+}
+
+/**
+ * Read the address of the connection a request came in on
+ *
+ * Forwarded headers are ignored, since any client can set them.
+ */
+function getClientAddress(c: RateLimitedContext): string {
+	const server = c.env as { requestIP?(request: Request): { address: string } | null } | undefined;
+	const address = typeof server?.requestIP === "function" ? server.requestIP(c.req.raw)?.address : undefined;
+	return address || "unknown";
+}
+
+/**
+ * Get a client's bucket, refilled up to now, and mark the client as the most recently seen
+ */
+function getBucket(clientId: string): Bucket {
+	const now = Date.now();
+	const { perMinute, burst } = getRateLimit();
+
+	const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: now };
+	bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60000);
+	bucket.updatedAt = now;
+
+	// Re-inserting keeps the map in least recently seen order
+	buckets.delete(clientId);
+	buckets.set(clientId, bucket);
+
+	for (const oldest of buckets.keys()) {
+		if (buckets.size <= MAX_TRACKED_CLIENTS) break;
+		buckets.delete(oldest);
+	}
+
+	return bucket;
+}
+
+/**
+ * Get the number of seconds until a client has a token, or null if it has one now
+ */
+function getRetryAfter(bucket: Bucket): number | null {
+	if (bucket.tokens >= 1) return null;
+
+	const perMs = getRateLimit().perMinute / 60000;
+	return Math.max(1, Math.ceil((1 - bucket.tokens) / perMs / 1000));
+}
+
+/**
+ * Take a token from a client's bucket
+ * @returns null if the request may go ahead, or the number of seconds until a token is available
+ */
+function takeToken(clientId: string): number | null {
+	const bucket = getBucket(clientId);
+	const retryAfter = getRetryAfter(bucket);
+
+	if (retryAfter === null) bucket.tokens -= 1;
+	return retryAfter;
+}
+
+function tooManyRequests(c: RateLimitedContext, retryAfter: number): Response {
+	return c.json({ error: "Rate limit exceeded" }, 429, { "Retry-After": String(retryAfter) });
+}
+
+/**
+ * Router middleware that limits requests without a valid API key by connection
+ * address, to RATE_LIMIT_PER_MINUTE with bursts of up to RATE_LIMIT_BURST
+ *
+ * Add it before requireApiKey: once an address has used up its failures, its
+ * requests are refused before their keys are looked up.
+ */
+export function limitFailedAuthentication() {
+	return async (c: RateLimitedContext & { res: Response }, next: () => Promise<void>) => {
+		const clientId = `auth-failures:${getClientAddress(c)}`;
+
+		const retryAfter = getRetryAfter(getBucket(clientId));
+		if (retryAfter !== null) return tooManyRequests(c, retryAfter);
+
+		await next();
+
+		if (c.res.status === 401) takeToken(clientId);
+	};
+}
+
+/**
+ * Router middleware that limits each API key to RATE_LIMIT_PER_MINUTE requests,
+ * with bursts of up to RATE_LIMIT_BURST, answering 429 with Retry-After beyond that
+ *
+ * Add it after requireApiKey, so buckets belong to verified keys. Requests
+ * that were not authenticated are counted by connection address.
+ */
+export function rateLimit() {
+	return async (c: RateLimitedContext, next: () => Promise<void>) => {
+		const keyId = getAuthenticatedKeyId(c.req.raw);
+		const retryAfter = takeToken(keyId ? `key:${keyId}` : `ip:${getClientAddress(c)}`);
+
+		if (retryAfter !== null) return tooManyRequests(c, retryAfter);
+		await next();
+	};
+}
@@ -0,0 +1,64 @@
+import type { Campaign, Post, Review, Thread } from "../types";
+import { ContentEditError, parsePostId } from "./content-edits";
+
+/**
+ * Get the review status of a post or thread; items never reviewed are pending
+ */
+export function getReviewStatus(item: Post | Thread): Review["status"] {
+	return item.review?.status ?? "pending";
+}
+
+/**
+ * Check whether the scheduler may push a post or thread to Typefully
+ *
+ * Rejected items are never scheduled. When the campaign requires approval,
+ * only approved items are.
+ */
+export function canSchedule(campaign: Campaign, item: Post | Thread): boolean {
+	const status = getReviewStatus(item);
+	return status === "approved" || (status === "pending" && !campaign.requireApproval);
+}
+
+/**
+ * Find the LinkedIn post or Twitter thread with a post ID such as "linkedin-post-1"
+ */
+export function findReviewItem(campaign: Campaign, postId: string): Post | Thread | undefined {
+	const parsed = parsePostId(postId);
+	if (!parsed) return undefined;
+
+	return parsed.platform === "linkedin"
+		? campaign.content?.linkedInPosts[parsed.index]
+		: campaign.content?.twitterThreads[parsed.index];
+}
+
+/**
+ * Record a review decision on a post or thread
+ * @throws ContentEditError when the post or thread does not exist
+ */
+export function setReview(
+	campaign: Campaign,
+	postId: string,
+	status: "approved" | "rejected",
+	reason?: string,
+): void {
+	const item = findReviewItem(campaign, postId);
+	if (!item) {
+		throw new ContentEditError(`${postId} not found`, 404);
+	}
+
+	item.review = { status, reviewedAt: new Date().toISOString() };
+	if (reason) item.review.reason = reason;
+}
+
+/**
+ * Count the posts and threads still waiting for approval before they can be scheduled
+ */
+export function countAwaitingApproval(campaign: Campaign): number {
+	if (!campaign.requireApproval) return 0;
+
+	const items: (Post | Thread)[] = [
+		...(campaign.content?.linkedInPosts ?? []),
+		...(campaign.content?.twitterThreads ?? []),
+	];
+	return items.filter((item) => getReviewStatus(item) === "pending").length;
+}
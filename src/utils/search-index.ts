@@ -0,0 +1,246 @@
+import { type Campaign, CampaignStatusSchema, type SearchHit } from "../types";
+import { getCampaignRepository } from "./campaign-repository";
+import type { StoreContext } from "./kv-store";
+import { countTerms, makeSnippet, tokenize } from "./text-utils";
+
+// BM25 ranking parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Query terms also match longer index terms that start with them, at a lower weight
+const PREFIX_MIN_LENGTH = 3;
+const PREFIX_WEIGHT = 0.5;
+
+// A searchable piece of a campaign, such as one post or one tweet
+interface IndexedDocument extends Omit<SearchHit, "score" | "snippet"> {
+	text: string;
+	length: number;
+}
+
+// A workspace's searchable documents and the statistics they are ranked with
+interface WorkspaceIndex {
+	// Documents by reference, e.g. "campaign-123#twitter-thread-0#2"
+	documents: Map<string, IndexedDocument>;
+	// Term → document reference → number of occurrences
+	postings: Map<string, Map<string, number>>;
+	// Campaign ID → the version that was indexed and the references of its documents
+	campaigns: Map<string, { updatedAt: string; refs: string[] }>;
+	totalLength: number;
+	// Change marker of the workspace when it was last synced with the repository
+	syncedMarker?: string | null;
+}
+
+// Workspace ID → its index; workspaces never share term statistics
+const workspaces = new Map<string, WorkspaceIndex>();
+// Campaign ID → the workspace it is indexed in
+const campaignWorkspaces = new Map<string, string>();
+
+function getWorkspaceIndex(workspaceId: string): WorkspaceIndex {
+	let index = workspaces.get(workspaceId);
+	if (!index) {
+		index = { documents: new Map(), postings: new Map(), campaigns: new Map(), totalLength: 0 };
+		workspaces.set(workspaceId, index);
+	}
+	return index;
+}
+
+/**
+ * Split a campaign into the documents that can be searched
+ */
+function toDocuments(campaign: Campaign): [string, IndexedDocument][] {
+	const base = { campaignId: campaign.id, topic: campaign.topic };
+	const entries: [string, Omit<IndexedDocument, "length">][] = [
+		[`${campaign.id}#topic`, { ...base, field: "topic", text: campaign.topic }],
+	];
+
+	if (campaign.description) {
+		entries.push([
+			`${campaign.id}#description`,
+			{ ...base, field: "description", text: campaign.description },
+		]);
+	}
+
+	campaign.research?.keyInsights.forEach((insight, i) => {
+		entries.push([
+			`${campaign.id}#insight-${i}`,
+			{ ...base, field: "research", insightIndex: i, text: insight },
+		]);
+	});
+
+	campaign.content?.linkedInPosts.forEach((post, i) => {
+		const postId = `linkedin-post-${i}`;
+		entries.push([`${campaign.id}#${postId}`, { ...base, field: "linkedin", postId, text: post.content }]);
+	});
+
+	campaign.content?.twitterThreads.forEach((thread, i) => {
+		const postId = `twitter-thread-${i}`;
+		thread.tweets.forEach((tweet, j) => {
+			entries.push([
+				`${campaign.id}#${postId}#${j}`,
+				{ ...base, field: "twitter", postId, tweetIndex: j, text: tweet.content },
+			]);
+		});
+	});
+
+	return entries
+		.filter(([, doc]) => doc.text?.trim())
+		.map(([ref, doc]) => [ref, { ...doc, length: tokenize(doc.text).length }]);
+}
+
+/**
+ * Remove a campaign from the search index
+ */
+export function removeCampaignFromIndex(campaignId: string): void {
+	const workspaceId = campaignWorkspaces.get(campaignId);
+	const index = workspaceId && workspaces.get(workspaceId);
+	campaignWorkspaces.delete(campaignId);
+
+	const indexed = index && index.campaigns.get(campaignId);
+	if (!index || !indexed) return;
+
+	for (const ref of indexed.refs) {
+		const doc = index.documents.get(ref);
+		if (!doc) continue;
+
+		for (const term of new Set(tokenize(doc.text))) {
+			const termPostings = index.postings.get(term);
+			termPostings?.delete(ref);
+			if (termPostings?.size === 0) index.postings.delete(term);
+		}
+
+		index.totalLength -= doc.length;
+		index.documents.delete(ref);
+	}
+
+	index.campaigns.delete(campaignId);
+}
+
+/**
+ * Add or refresh a campaign in its workspace's search index
+ *
+ * Trashed campaigns are removed instead, so they never show up in results.
+ */
+export function indexCampaign(campaign: Campaign): void {
+	removeCampaignFromIndex(campaign.id);
+	if (campaign.deletedAt) return;
+
+	const index = getWorkspaceIndex(campaign.workspaceId);
+	const docs = toDocuments(campaign);
+
+	for (const [ref, doc] of docs) {
+		index.documents.set(ref, doc);
+		index.totalLength += doc.length;
+
+		for (const [term, count] of countTerms(tokenize(doc.text))) {
+			let termPostings = index.postings.get(term);
+			if (!termPostings) {
+				termPostings = new Map();
+				index.postings.set(term, termPostings);
+			}
+			termPostings.set(ref, count);
+		}
+	}
+
+	index.campaigns.set(campaign.id, {
+		updatedAt: campaign.updatedAt,
+		refs: docs.map(([ref]) => ref),
+	});
+	campaignWorkspaces.set(campaign.id, campaign.workspaceId);
+}
+
+/**
+ * Bring a workspace's search index in line with the campaign repository
+ *
+ * Saves in this process update the index directly; this catches changes made
+ * by other processes and fills the index after a restart. Nothing is read
+ * beyond the workspace's change marker unless the workspace changed since the
+ * last sync, and then only the campaigns whose index entry changed are loaded.
+ */
+async function syncSearchIndex(ctx: StoreContext, workspaceId: string): Promise<void> {
+	const repository = getCampaignRepository(ctx);
+	const index = getWorkspaceIndex(workspaceId);
+
+	const marker = await repository.getChangeMarker(workspaceId);
+	if (marker !== null && marker === index.syncedMarker) return;
+
+	const entries = await repository.listEntriesByStatus(workspaceId, CampaignStatusSchema.options);
+	const liveIds = new Set(entries.map((entry) => entry.id));
+
+	for (const campaignId of index.campaigns.keys()) {
+		if (!liveIds.has(campaignId)) removeCampaignFromIndex(campaignId);
+	}
+
+	const stale = entries.filter((entry) => index.campaigns.get(entry.id)?.updatedAt !== entry.updatedAt);
+	const campaigns = await Promise.all(stale.map((entry) => repository.get(entry.id)));
+
+	for (const campaign of campaigns) {
+		if (campaign) indexCampaign(campaign);
+	}
+
+	index.syncedMarker = marker;
+}
+
+/**
+ * Search the topics, descriptions, research insights and posts of a workspace's campaigns
+ * @param ctx The storage context
+ * @param workspaceId The workspace to search
+ * @param query The search text
+ * @param limit The maximum number of hits to return
+ * @returns Hits ranked by BM25 score over the workspace's documents, best first
+ */
+export async function searchCampaigns(
+	ctx: StoreContext,
+	workspaceId: string,
+	query: string,
+	limit: number,
+): Promise<SearchHit[]> {
+	await syncSearchIndex(ctx, workspaceId);
+
+	const { documents, postings, totalLength } = getWorkspaceIndex(workspaceId);
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0 || documents.size === 0) {
+		return [];
+	}
+
+	const averageLength = totalLength / documents.size || 1;
+	const scores = new Map<string, number>();
+
+	for (const queryTerm of queryTerms) {
+		const matchingTerms: [string, number][] = [[queryTerm, 1]];
+		if (queryTerm.length >= PREFIX_MIN_LENGTH) {
+			for (const term of postings.keys()) {
+				if (term !== queryTerm && term.startsWith(queryTerm)) {
+					matchingTerms.push([term, PREFIX_WEIGHT]);
+				}
+			}
+		}
+
+		for (const [term, weight] of matchingTerms) {
+			const termPostings = postings.get(term);
+			if (!termPostings) continue;
+
+			const df = termPostings.size;
+			const idf = Math.log(1 + (documents.size - df + 0.5) / (df + 0.5));
+
+			for (const [ref, tf] of termPostings) {
+				const doc = documents.get(ref);
+				if (!doc) continue;
+
+				const length = doc.length;
+				const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength);
+				const score = weight * idf * ((tf * (BM25_K1 + 1)) / norm);
+				scores.set(ref, (scores.get(ref) ?? 0) + score);
+			}
+		}
+	}
+
+	return [...scores.entries()]
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, limit)
+		.flatMap(([ref, score]) => {
+			const doc = documents.get(ref);
+			if (!doc) return [];
+
+			const { text, length, ...location } = doc;
+			return [{ ...location, score: Number(score.toFixed(4)), snippet: makeSnippet(text, queryTerms) }];
+		});
+}
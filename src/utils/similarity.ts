@@ -0,0 +1,144 @@
+import { stem, tokenize } from "./text-utils";
+
+// Description words count for less than topic words
+const DESCRIPTION_WEIGHT = 0.5;
+// Share of the score taken from word overlap; the rest comes from character trigrams
+const WORD_SCORE_WEIGHT = 0.8;
+
+/**
+ * Text to compare: a campaign topic and optional description
+ */
+export interface TopicText {
+	topic: string;
+	description?: string | null;
+}
+
+/**
+ * How similar a candidate is to the query, and why
+ */
+export interface SimilarityScore {
+	/** Between 0 (unrelated) and 1 (same topic) */
+	score: number;
+	reason: string;
+}
+
+// Weighted stem counts for a topic and description, with the original word for each stem
+interface TermVector {
+	weights: Map<string, number>;
+	words: Map<string, string>;
+}
+
+function toTermVector({ topic, description }: TopicText): TermVector {
+	const weights = new Map<string, number>();
+	const words = new Map<string, string>();
+
+	const add = (text: string, weight: number) => {
+		for (const token of tokenize(text)) {
+			const term = stem(token);
+			weights.set(term, (weights.get(term) ?? 0) + weight);
+			if (!words.has(term)) words.set(term, token);
+		}
+	};
+
+	add(topic, 1);
+	if (description) add(description, DESCRIPTION_WEIGHT);
+
+	return { weights, words };
+}
+
+function normalizeTopic(topic: string): string {
+	return tokenize(topic).join(" ");
+}
+
+/**
+ * Character trigrams of a normalized topic, to catch spelling and word-form differences
+ */
+function trigrams(topic: string): Set<string> {
+	const padded = ` ${normalizeTopic(topic)} `;
+	const grams = new Set<string>();
+	for (let i = 0; i < padded.length - 2; i++) {
+		grams.add(padded.slice(i, i + 3));
+	}
+	return grams;
+}
+
+function diceCoefficient(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 || b.size === 0) return 0;
+
+	let shared = 0;
+	for (const gram of a) {
+		if (b.has(gram)) shared++;
+	}
+	return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Score how similar each candidate is to the query text
+ *
+ * Uses TF-IDF weighted cosine similarity over stemmed words, with inverse
+ * document frequencies taken from the candidates themselves so that words
+ * shared by many campaigns count for little, blended with character trigram
+ * overlap of the topics. Everything runs locally.
+ * @param query The topic being requested
+ * @param candidates The existing topics to compare against
+ * @returns One score per candidate, in the same order
+ */
+export function scoreTopicSimilarity(query: TopicText, candidates: TopicText[]): SimilarityScore[] {
+	const queryVector = toTermVector(query);
+	const candidateVectors = candidates.map(toTermVector);
+
+	// Document frequency of each term, counting the query as a document
+	const documentCount = candidates.length + 1;
+	const documentFrequency = new Map<string, number>();
+	for (const vector of [queryVector, ...candidateVectors]) {
+		for (const term of vector.weights.keys()) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+
+	const idf = (term: string) =>
+		Math.log((documentCount + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+
+	const weigh = (vector: TermVector) =>
+		new Map([...vector.weights].map(([term, weight]) => [term, weight * idf(term)]));
+
+	const norm = (weights: Map<string, number>) =>
+		Math.sqrt([...weights.values()].reduce((sum, weight) => sum + weight * weight, 0));
+
+	const queryWeights = weigh(queryVector);
+	const queryNorm = norm(queryWeights);
+	const queryTopic = normalizeTopic(query.topic);
+	const queryTrigrams = trigrams(query.topic);
+
+	return candidates.map((candidate, i) => {
+		if (queryTopic && normalizeTopic(candidate.topic) === queryTopic) {
+			return { score: 1, reason: "Same topic" };
+		}
+
+		const candidateVector = candidateVectors[i]!;
+		const candidateWeights = weigh(candidateVector);
+		const candidateNorm = norm(candidateWeights);
+
+		let dot = 0;
+		const sharedTerms: string[] = [];
+		for (const [term, weight] of queryWeights) {
+			const candidateWeight = candidateWeights.get(term);
+			if (candidateWeight) {
+				dot += weight * candidateWeight;
+				sharedTerms.push(term);
+			}
+		}
+
+		const cosine = queryNorm && candidateNorm ? dot / (queryNorm * candidateNorm) : 0;
+		const dice = diceCoefficient(queryTrigrams, trigrams(candidate.topic));
+		const score = WORD_SCORE_WEIGHT * cosine + (1 - WORD_SCORE_WEIGHT) * dice;
+
+		const sharedWords = sharedTerms.map((term) => candidateVector.words.get(term) ?? term);
+		const reason =
+			sharedWords.length > 0
+				? `Shares key terms: ${sharedWords.join(", ")}`
+				: "Similar wording";
+
+		return { score: Number(score.toFixed(3)), reason };
+	});
+}
@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { extractPageContent } from "./html-utils";
+import { resolvePublicAddress, fetchSourcePage, isPrivateAddress } from "./source-fetch";
+
+const fixture = Bun.file(new URL("./__fixtures__/article.html", import.meta.url));
+
+const logger = {
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	fatal: () => {},
+	child: () => logger,
+} as never;
+const ctx = { logger };
+
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+
+beforeAll(() => {
+	server = Bun.serve({
+		port: 0,
+		hostname: "127.0.0.1",
+		fetch(req) {
+			const { pathname } = new URL(req.url);
+			if (pathname === "/article") {
+				return new Response(fixture, { headers: { "content-type": "text/html; charset=utf-8" } });
+			}
+			if (pathname === "/notes.txt") {
+				return new Response("  Plain notes about pricing.  ", { headers: { "content-type": "text/plain" } });
+			}
+			if (pathname === "/large") {
+				return new Response("a".repeat(3 * 1024 * 1024), { headers: { "content-type": "text/plain" } });
+			}
+			if (pathname === "/redirect") {
+				return Response.redirect(`${baseUrl}/article`, 302);
+			}
+			if (pathname === "/metadata-redirect") {
+				return Response.redirect("http://169.254.169.254/latest/meta-data/", 302);
+			}
+			return new Response("Not found", { status: 404 });
+		},
+	});
+	baseUrl = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(() => {
+	server.stop(true);
+	delete process.env.RESEARCH_SOURCE_ALLOWED_HOSTS;
+});
+
+describe("extractPageContent", () => {
+	test("reads metadata and the article body without scripts or page chrome", async () => {
+		const page = extractPageContent(await fixture.text());
+
+		expect(page.title).toBe("Pricing pages that convert");
+		expect(page.description).toBe("How clear pricing pages win more customers & fewer support tickets.");
+		expect(page.keywords).toEqual(["pricing", "saas", "conversion"]);
+		expect(page.text).toBe(
+			"Pricing pages that convert Teams that show prices up front get fewer sales calls… and happier buyers. Three tiers are easier to compare than five.",
+		);
+	});
+});
+
+describe("fetchSourcePage", () => {
+	test("refuses local addresses that are not allow-listed", async () => {
+		delete process.env.RESEARCH_SOURCE_ALLOWED_HOSTS;
+
+		expect(await fetchSourcePage(`${baseUrl}/article`, ctx)).toBeNull();
+	});
+
+	test("refuses loopback written as a hex IPv4-mapped IPv6 literal", async () => {
+		delete process.env.RESEARCH_SOURCE_ALLOWED_HOSTS;
+
+		expect(new URL(`http://[::ffff:127.0.0.1]:${server.port}/`).hostname).toBe("[::ffff:7f00:1]");
+		expect(await fetchSourcePage(`http://[::ffff:127.0.0.1]:${server.port}/article`, ctx)).toBeNull();
+		expect(await fetchSourcePage(`http://[::ffff:7f00:1]:${server.port}/article`, ctx)).toBeNull();
+	});
+
+	test("fetches and extracts an allow-listed page", async () => {
+		process.env.RESEARCH_SOURCE_ALLOWED_HOSTS = "127.0.0.1";
+
+		const page = await fetchSourcePage(`${baseUrl}/article`, ctx);
+		expect(page?.title).toBe("Pricing pages that convert");
+		expect(page?.text).toContain("Three tiers are easier to compare than five.");
+	});
+
+	test("returns plain text sources as they are", async () => {
+		process.env.RESEARCH_SOURCE_ALLOWED_HOSTS = "127.0.0.1";
+
+		const page = await fetchSourcePage(`${baseUrl}/notes.txt`, ctx);
+		expect(page).toEqual({ title: "", description: "", keywords: [], text: "Plain notes about pricing." });
+	});
+
+	test("follows redirects to allowed hosts only", async () => {
+		process.env.RESEARCH_SOURCE_ALLOWED_HOSTS = "127.0.0.1";
+
+		expect((await fetchSourcePage(`${baseUrl}/redirect`, ctx))?.title).toBe("Pricing pages that convert");
+		expect(await fetchSourcePage(`${baseUrl}/metadata-redirect`, ctx)).toBeNull();
+	});
+
+	test("stops reading large bodies at the size limit", async () => {
+		process.env.RESEARCH_SOURCE_ALLOWED_HOSTS = "127.0.0.1";
+
+		const page = await fetchSourcePage(`${baseUrl}/large`, ctx);
+		expect(page?.text.length).toBe(2 * 1024 * 1024);
+	});
+
+	test("returns null for failed responses", async () => {
+		process.env.RESEARCH_SOURCE_ALLOWED_HOSTS = "127.0.0.1";
+
+		expect(await fetchSourcePage(`${baseUrl}/missing`, ctx)).toBeNull();
+	});
+});
+
+describe("isPrivateAddress", () => {
+	test("blocks private, loopback, link-local and metadata addresses", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.20.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"100.100.100.200",
+			"0.0.0.0",
+			"::1",
+			"fe80::1",
+			"fd00:ec2::254",
+			"::ffff:127.0.0.1",
+			"::ffff:7f00:1",
+			"::ffff:a9fe:a9fe",
+			"::7f00:1",
+			"64:ff9b::a9fe:a9fe",
+			"fec0::1",
+		]) {
+			expect(isPrivateAddress(address)).toBe(true);
+		}
+	});
+
+	test("allows public addresses", () => {
+		for (const address of ["93.184.216.34", "1.1.1.1", "2606:4700:4700::1111", "::ffff:5db8:d822", "64:ff9b::101:101"]) {
+			expect(isPrivateAddress(address)).toBe(false);
+		}
+	});
+
+	test("rejects other protocols", async () => {
+		await expect(resolvePublicAddress(new URL("file:///etc/passwd"))).rejects.toThrow("Unsupported protocol");
+	});
+});
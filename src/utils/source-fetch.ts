@@ -0,0 +1,249 @@
+/**
+ * Fetching research source pages without reaching into private networks
+ */
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { extractPageContent, type PageContent } from "./html-utils";
+import type { StoreContext } from "./kv-store";
+
+const SOURCE_FETCH_TIMEOUT_MS = 15000;
+const MAX_SOURCE_REDIRECTS = 5;
+const MAX_SOURCE_BYTES = 2 * 1024 * 1024;
+
+// Status, headers and body of a source page
+interface SourceResponse {
+	status: number;
+	statusText: string;
+	location?: string;
+	contentType: string;
+	body: string;
+}
+
+/**
+ * Thrown when a source URL points at an address that must not be fetched
+ */
+export class BlockedSourceError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BlockedSourceError";
+	}
+}
+
+/**
+ * Hosts that may be fetched even though they resolve to a private address,
+ * from the comma-separated RESEARCH_SOURCE_ALLOWED_HOSTS
+ */
+function getAllowedHosts(): string[] {
+	return (process.env.RESEARCH_SOURCE_ALLOWED_HOSTS || "")
+		.split(",")
+		.map((host) => host.trim().toLowerCase())
+		.filter(Boolean);
+}
+
+/**
+ * Loopback, private, link-local (including the cloud metadata address),
+ * carrier-grade NAT, multicast and reserved ranges. IPv4-mapped IPv6
+ * addresses, such as ::ffff:7f00:1, are checked against the IPv4 ranges.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 96], // unspecified, loopback and the deprecated IPv4-compatible form
+	["64:ff9b:1::", 48], // local-use NAT64
+	["fc00::", 7], // unique local
+	["fe80::", 10], // link-local
+	["fec0::", 10], // site-local
+	["ff00::", 8], // multicast
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Read the IPv4 address embedded in a NAT64 address (64:ff9b::/96)
+ */
+function getNat64IPv4(address: string): string | undefined {
+	const hextets = new URL(`http://[${address}]`).hostname.match(
+		/^\[64:ff9b::(?:([0-9a-f]{1,4}):)?([0-9a-f]{0,4})\]$/,
+	);
+	if (!hextets) return undefined;
+
+	const value = Number.parseInt(hextets[1] || "0", 16) * 0x10000 + Number.parseInt(hextets[2] || "0", 16);
+	return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join(".");
+}
+
+/**
+ * Check whether an IP address must not be fetched
+ */
+export function isPrivateAddress(address: string): boolean {
+	const stripped = address.replace(/^\[|\]$/g, "");
+	const version = isIP(stripped);
+
+	if (version === 4) return PRIVATE_ADDRESSES.check(stripped, "ipv4");
+	if (version === 6) {
+		const nat64 = getNat64IPv4(stripped);
+		return nat64 ? PRIVATE_ADDRESSES.check(nat64, "ipv4") : PRIVATE_ADDRESSES.check(stripped, "ipv6");
+	}
+	return true;
+}
+
+/**
+ * Resolve the address to connect to for a URL, making sure it is HTTP(S) and
+ * its host only resolves to public addresses, unless the host is on the allow-list
+ * @throws BlockedSourceError when the URL must not be fetched
+ */
+export async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new BlockedSourceError(`Unsupported protocol: ${url.protocol}`);
+	}
+
+	const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+	const addresses = isIP(hostname)
+		? [{ address: hostname, family: isIP(hostname) }]
+		: await lookup(hostname, { all: true });
+
+	const [first] = addresses;
+	if (!first) {
+		throw new BlockedSourceError(`Source host ${hostname} has no addresses`);
+	}
+	if (!getAllowedHosts().includes(hostname) && addresses.some((entry) => isPrivateAddress(entry.address))) {
+		throw new BlockedSourceError(`Source host ${hostname} resolves to a private address`);
+	}
+
+	return first;
+}
+
+/**
+ * Request a URL from an address that was already checked, reading at most
+ * MAX_SOURCE_BYTES of the body
+ *
+ * The host is not resolved again, so a DNS answer that changes between the
+ * check and the request cannot point the request at a private address.
+ */
+function requestSource(url: URL, pinned: LookupAddress, signal: AbortSignal): Promise<SourceResponse> {
+	const client = url.protocol === "https:" ? https : http;
+
+	return new Promise((resolve, reject) => {
+		const request = client.request(
+			url,
+			{
+				headers: { Accept: "text/html,text/plain;q=0.9,*/*;q=0.8" },
+				signal,
+				lookup: ((_hostname, options, callback) => {
+					if (options.all) {
+						callback(null, [pinned]);
+					} else {
+						callback(null, pinned.address, pinned.family);
+					}
+				}) as LookupFunction,
+			},
+			(response) => {
+				const chunks: Buffer[] = [];
+				let size = 0;
+				let finished = false;
+
+				const finish = () => {
+					if (finished) return;
+					finished = true;
+					resolve({
+						status: response.statusCode ?? 0,
+						statusText: response.statusMessage ?? "",
+						location: response.headers.location,
+						contentType: response.headers["content-type"] || "",
+						body: Buffer.concat(chunks).toString("utf8"),
+					});
+				};
+
+				response.on("data", (chunk: Buffer) => {
+					const kept = chunk.subarray(0, MAX_SOURCE_BYTES - size);
+					chunks.push(kept);
+					size += kept.length;
+
+					// Stop downloading once the limit is reached and keep what was read
+					if (size >= MAX_SOURCE_BYTES) {
+						finish();
+						response.destroy();
+					}
+				});
+				response.on("end", finish);
+				response.on("error", reject);
+			},
+		);
+
+		request.on("error", reject);
+		request.end();
+	});
+}
+
+/**
+ * Fetch a source URL and extract its readable content
+ *
+ * Every redirect is checked like the first URL, so a public page cannot
+ * forward the request to a private address. Bodies are cut off after
+ * MAX_SOURCE_BYTES.
+ * @returns null when the page is blocked, fails or times out
+ */
+export async function fetchSourcePage(
+	url: string,
+	ctx: Pick<StoreContext, "logger">,
+): Promise<PageContent | null> {
+	try {
+		ctx.logger.debug("Fetching research source: %s", url);
+
+		const signal = AbortSignal.timeout(SOURCE_FETCH_TIMEOUT_MS);
+		let target = new URL(url);
+		let response: SourceResponse | undefined;
+
+		for (let redirects = 0; redirects <= MAX_SOURCE_REDIRECTS; redirects++) {
+			const address = await resolvePublicAddress(target);
+			response = await requestSource(target, address, signal);
+
+			if (response.status < 300 || response.status >= 400 || !response.location) break;
+
+			target = new URL(response.location, target);
+			response = undefined;
+		}
+
+		if (!response) {
+			ctx.logger.warn("Too many redirects fetching research source %s", url);
+			return null;
+		}
+
+		if (response.status < 200 || response.status >= 300) {
+			ctx.logger.warn(
+				"Failed to fetch research source %s: %s %s",
+				url,
+				response.status,
+				response.statusText,
+			);
+			return null;
+		}
+
+		const { body, contentType } = response;
+
+		if (contentType.includes("html") || /<html[\s>]/i.test(body)) {
+			return extractPageContent(body);
+		}
+
+		return { title: "", description: "", keywords: [], text: body.trim() };
+	} catch (error) {
+		ctx.logger.warn("Error fetching research source %s: %s", url, error);
+		return null;
+	}
+}
@@ -0,0 +1,83 @@
+/**
+ * Text utility functions for search and similarity scoring
+ */
+
+// Common English words that carry no meaning on their own
+const STOPWORDS = new Set([
+	"a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been",
+	"but", "by", "can", "do", "for", "from", "has", "have", "how", "if", "in", "into", "is",
+	"it", "its", "more", "most", "not", "of", "on", "or", "our", "out", "so", "than", "that",
+	"the", "their", "them", "then", "there", "these", "they", "this", "to", "up", "was", "we",
+	"were", "what", "when", "which", "who", "why", "will", "with", "you", "your",
+]);
+
+/**
+ * Split text into lowercase word tokens, without stopwords
+ * @param text The text to tokenize
+ * @returns The tokens in the order they appear
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.replace(/'s\b/g, "")
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Count how often each token occurs
+ */
+export function countTerms(tokens: string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const token of tokens) {
+		counts.set(token, (counts.get(token) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Cut a short excerpt of text around the first occurrence of any of the terms
+ * @param text The full text
+ * @param terms Lowercase terms to look for
+ * @param radius Number of characters to keep on each side of the match
+ */
+export function makeSnippet(text: string, terms: string[], radius = 80): string {
+	const lower = text.toLowerCase();
+	const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+	const match = positions.length > 0 ? Math.min(...positions) : 0;
+
+	const start = Math.max(0, match - radius);
+	const end = Math.min(text.length, match + radius);
+	const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+
+	return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+// Suffixes removed by stem(), longest first, with their replacements
+const SUFFIXES: [string, string][] = [
+	["ations", "ate"],
+	["ation", "ate"],
+	["ing", ""],
+	["ers", ""],
+	["ies", "y"],
+	["ed", ""],
+	["er", ""],
+	["ly", ""],
+	["s", ""],
+];
+
+/**
+ * Reduce a token to a rough stem so that related word forms compare equal,
+ * e.g. "marketing", "marketers" and "market" all become "market"
+ */
+export function stem(token: string): string {
+	for (const [suffix, replacement] of SUFFIXES) {
+		if (!token.endsWith(suffix) || token.endsWith("ss")) continue;
+
+		const base = token.slice(0, -suffix.length) + replacement;
+		if (base.length >= 3) return base;
+	}
+	return token;
+}
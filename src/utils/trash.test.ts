@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTestContext } from "./__fixtures__/store-context";
+import { createCampaign, getCampaign, listCampaigns } from "./kv-store";
+import {
+	getTrashRetentionDays,
+	listTrashedCampaigns,
+	purgeCampaign,
+	restoreTrashedCampaign,
+	trashCampaign,
+} from "./trash";
+
+const previousRepository = process.env.CAMPAIGN_REPOSITORY;
+
+beforeAll(() => {
+	process.env.CAMPAIGN_REPOSITORY = "memory";
+});
+
+afterAll(() => {
+	if (previousRepository === undefined) {
+		delete process.env.CAMPAIGN_REPOSITORY;
+	} else {
+		process.env.CAMPAIGN_REPOSITORY = previousRepository;
+	}
+});
+
+describe("trash", () => {
+	test("hides trashed campaigns from lists and shows them in the trash", async () => {
+		const ctx = createTestContext();
+		const workspaceId = `workspace-${crypto.randomUUID()}`;
+		const kept = await createCampaign(ctx, "Kept", undefined, undefined, undefined, workspaceId);
+		const trashed = await createCampaign(ctx, "Trashed", undefined, undefined, undefined, workspaceId);
+
+		await trashCampaign(ctx, trashed.id);
+
+		const listed = await listCampaigns(ctx, { workspaceId });
+		expect(listed.map((campaign) => campaign.id)).toEqual([kept.id]);
+
+		const [entry, ...rest] = await listTrashedCampaigns(ctx, workspaceId);
+		expect(rest).toEqual([]);
+		expect(entry?.campaign.id).toBe(trashed.id);
+		expect(entry?.expired).toBe(false);
+		expect(new Date(entry!.purgeAt).getTime() - new Date(entry!.campaign.deletedAt!).getTime()).toBe(
+			getTrashRetentionDays() * 24 * 60 * 60 * 1000,
+		);
+	});
+
+	test("restores a trashed campaign", async () => {
+		const ctx = createTestContext();
+		const campaign = await createCampaign(ctx, "Restored");
+		await trashCampaign(ctx, campaign.id);
+
+		const restored = await restoreTrashedCampaign(ctx, campaign.id);
+
+		expect(restored?.deletedAt).toBeUndefined();
+		expect((await getCampaign(ctx, campaign.id))?.deletedAt).toBeUndefined();
+	});
+
+	test("purges a trashed campaign without drafts", async () => {
+		const ctx = createTestContext();
+		const campaign = await createCampaign(ctx, "Purged");
+		const trashed = await trashCampaign(ctx, campaign.id);
+
+		const result = await purgeCampaign(ctx, trashed!, true);
+
+		expect(result).toEqual({ campaignId: campaign.id, purged: true, schedulerResult: undefined });
+		expect(await getCampaign(ctx, campaign.id)).toBeNull();
+	});
+});
@@ -0,0 +1,124 @@
+import type { Campaign, SchedulerOutput } from "../types";
+import schedulerAgent from "../agent/scheduler";
+import { getCampaignRepository } from "./campaign-repository";
+import { type StoreContext, listCampaigns, updateCampaign } from "./kv-store";
+import { removeCampaignFromIndex } from "./search-index";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A trashed campaign with the time it becomes eligible for purging
+ */
+export interface TrashedCampaign {
+	campaign: Campaign;
+	purgeAt: string;
+	expired: boolean;
+}
+
+/**
+ * Result of permanently deleting a campaign
+ */
+export interface PurgeResult {
+	campaignId: string;
+	purged: boolean;
+	schedulerResult?: SchedulerOutput;
+	error?: string;
+}
+
+/**
+ * Number of days a campaign stays in the trash, from CAMPAIGN_TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(): number {
+	const days = Number.parseInt(process.env.CAMPAIGN_TRASH_RETENTION_DAYS || "", 10);
+	return Number.isInteger(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Check whether a campaign is in the trash
+ */
+export function isTrashed(campaign: Campaign): boolean {
+	return Boolean(campaign.deletedAt);
+}
+
+/**
+ * Move a campaign to the trash
+ */
+export function trashCampaign(ctx: StoreContext, campaignId: string): Promise<Campaign | null> {
+	ctx.logger.info("Moving campaign to trash: %s", campaignId);
+
+	return updateCampaign(ctx, campaignId, (latest) => {
+		latest.deletedAt = new Date().toISOString();
+	});
+}
+
+/**
+ * Take a campaign back out of the trash
+ */
+export function restoreTrashedCampaign(
+	ctx: StoreContext,
+	campaignId: string,
+): Promise<Campaign | null> {
+	ctx.logger.info("Restoring campaign from trash: %s", campaignId);
+
+	return updateCampaign(ctx, campaignId, (latest) => {
+		delete latest.deletedAt;
+	});
+}
+
+/**
+ * List a workspace's trashed campaigns, most recently deleted first
+ */
+export async function listTrashedCampaigns(
+	ctx: StoreContext,
+	workspaceId: string,
+): Promise<TrashedCampaign[]> {
+	const retentionMs = getTrashRetentionDays() * DAY_MS;
+	const campaigns = await listCampaigns(ctx, { includeTrashed: true, workspaceId });
+
+	return campaigns
+		.filter(isTrashed)
+		.sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""))
+		.map((campaign) => {
+			const purgeAt = new Date(new Date(campaign.deletedAt ?? 0).getTime() + retentionMs);
+			return { campaign, purgeAt: purgeAt.toISOString(), expired: purgeAt.getTime() <= Date.now() };
+		});
+}
+
+/**
+ * Permanently delete a trashed campaign
+ *
+ * With `cancelDrafts`, the scheduler first cancels the campaign's pending
+ * Typefully drafts; the campaign is kept if any of them could not be cancelled
+ * so the purge can be retried.
+ */
+export async function purgeCampaign(
+	ctx: StoreContext,
+	campaign: Campaign,
+	cancelDrafts: boolean,
+): Promise<PurgeResult> {
+	let schedulerResult: SchedulerOutput | undefined;
+
+	if (cancelDrafts && campaign.schedulingInfo?.scheduledPosts.length) {
+		schedulerResult = await schedulerAgent.run({
+			campaignId: campaign.id,
+			content: campaign.content ?? { linkedInPosts: [], twitterThreads: [] },
+			action: "cancel",
+		});
+
+		if (schedulerResult.status === "error" || schedulerResult.scheduledPosts > 0) {
+			return {
+				campaignId: campaign.id,
+				purged: false,
+				schedulerResult,
+				error: "Some drafts could not be cancelled; the campaign was kept in the trash",
+			};
+		}
+	}
+
+	await getCampaignRepository(ctx).delete(campaign.id);
+	removeCampaignFromIndex(campaign.id);
+	ctx.logger.info("Purged campaign %s", campaign.id);
+
+	return { campaignId: campaign.id, purged: true, schedulerResult };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { signWebhookPayload, verifyWebhookSignature } from "./webhook-signature";
+
+const secret = "test-secret";
+const body = JSON.stringify({ typefullyId: "draft-1", status: "published" });
+
+function now(): string {
+	return String(Math.floor(Date.now() / 1000));
+}
+
+describe("verifyWebhookSignature", () => {
+	test("accepts a recent webhook signed with the secret", () => {
+		const timestamp = now();
+
+		expect(verifyWebhookSignature(secret, timestamp, signWebhookPayload(secret, timestamp, body), body)).toBeNull();
+	});
+
+	test("refuses a webhook without a timestamp or signature", () => {
+		const timestamp = now();
+
+		expect(verifyWebhookSignature(secret, undefined, signWebhookPayload(secret, timestamp, body), body)).toContain(
+			"Missing",
+		);
+		expect(verifyWebhookSignature(secret, timestamp, undefined, body)).toContain("Missing");
+	});
+
+	test("refuses a webhook sent more than five minutes ago", () => {
+		const timestamp = String(Math.floor(Date.now() / 1000) - 6 * 60);
+
+		expect(verifyWebhookSignature(secret, timestamp, signWebhookPayload(secret, timestamp, body), body)).not.toBeNull();
+	});
+
+	test("refuses a webhook signed with another secret", () => {
+		const timestamp = now();
+
+		expect(
+			verifyWebhookSignature(secret, timestamp, signWebhookPayload("other-secret", timestamp, body), body),
+		).not.toBeNull();
+	});
+
+	test("refuses a webhook whose body or timestamp changed after signing", () => {
+		const timestamp = now();
+		const signature = signWebhookPayload(secret, timestamp, body);
+
+		expect(verifyWebhookSignature(secret, timestamp, signature, body.replace("published", "failed"))).not.toBeNull();
+		expect(verifyWebhookSignature(secret, String(Number(timestamp) + 1), signature, body)).not.toBeNull();
+	});
+
+	test("refuses a malformed signature", () => {
+		const timestamp = now();
+
+		expect(verifyWebhookSignature(secret, timestamp, "sha256=abc", body)).not.toBeNull();
+		expect(verifyWebhookSignature(secret, timestamp, "not-a-signature", body)).not.toBeNull();
+	});
+});
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Constants
+// Older deliveries are refused, so a captured request cannot be replayed later
+const MAX_TIMESTAMP_AGE_SECONDS = 5 * 60;
+
+/**
+ * Header with the Unix time, in seconds, at which a webhook was sent
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/**
+ * Header with the webhook signature, as `sha256=<hex>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * Sign a webhook body: an HMAC-SHA256 of the timestamp and the raw body, joined by a dot
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+	return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Check a webhook's signature and that it was sent recently
+ * @returns Why the webhook was refused, or null if it is genuine
+ */
+export function verifyWebhookSignature(
+	secret: string,
+	timestamp: string | undefined,
+	signature: string | undefined,
+	body: string,
+): string | null {
+	if (!timestamp || !signature) {
+		return `Missing ${WEBHOOK_TIMESTAMP_HEADER} or ${WEBHOOK_SIGNATURE_HEADER} header`;
+	}
+
+	const sentAt = Number.parseInt(timestamp, 10);
+	if (!Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > MAX_TIMESTAMP_AGE_SECONDS) {
+		return "Webhook timestamp is missing or too old";
+	}
+
+	const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+	const received = Buffer.from(signature.trim());
+	if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+		return "Invalid webhook signature";
+	}
+
+	return null;
+}
@@ -0,0 +1,133 @@
+import type { Workspace, WorkspaceUpdate } from "../types";
+import type { StoreContext } from "./kv-store";
+
+// Constants
+const WORKSPACES_STORE = "workspaces";
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/i;
+
+/**
+ * Workspace used when a request does not name one, and that owns campaigns
+ * created before workspaces existed
+ */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+/**
+ * Header that selects the workspace of an API request
+ */
+export const WORKSPACE_HEADER = "X-Workspace-Id";
+
+// Request shape the workspace is read from; `raw` carries a workspace bound by the API key
+interface WorkspaceRequest {
+	header(name: string): string | undefined;
+	query(name: string): string | undefined;
+	raw?: Request;
+}
+
+// Workspace of each authenticated request, taken from its API key
+const requestWorkspaces = new WeakMap<Request, string>();
+
+/**
+ * A workspace as returned by the API, without its Typefully API key
+ */
+export type PublicWorkspace = Omit<Workspace, "typefullyApiKey"> & {
+	hasTypefullyApiKey: boolean;
+};
+
+/**
+ * Read the workspace a request names in the X-Workspace-Id header or the `workspace` query parameter
+ * @returns The workspace ID, undefined when the request names none, or null when the ID is not valid
+ */
+export function getRequestedWorkspaceId(req: WorkspaceRequest): string | null | undefined {
+	const requested = (req.header(WORKSPACE_HEADER) ?? req.query("workspace"))?.trim();
+
+	if (!requested) return undefined;
+	return WORKSPACE_ID_PATTERN.test(requested) ? requested : null;
+}
+
+/**
+ * Bind an authenticated request to the workspace of its API key
+ */
+export function bindRequestWorkspace(raw: Request, workspaceId: string): void {
+	requestWorkspaces.set(raw, workspaceId);
+}
+
+/**
+ * Resolve the workspace of an API request
+ *
+ * Requests authenticated with an API key use the key's workspace. Otherwise
+ * the workspace comes from the X-Workspace-Id header or the `workspace` query
+ * parameter, and defaults to the default workspace.
+ * @returns The workspace ID, or null when the requested ID is not valid
+ */
+export function resolveWorkspaceId(req: WorkspaceRequest): string | null {
+	const bound = req.raw && requestWorkspaces.get(req.raw);
+	if (bound) return bound;
+
+	const requested = getRequestedWorkspaceId(req);
+	return requested === undefined ? DEFAULT_WORKSPACE_ID : requested;
+}
+
+/**
+ * Get a workspace's settings
+ *
+ * Workspaces exist as soon as a request names them; this returns null until
+ * settings have been saved for one.
+ */
+export async function getWorkspace(ctx: StoreContext, id: string): Promise<Workspace | null> {
+	try {
+		const result = await ctx.kv.get(WORKSPACES_STORE, id);
+		const workspace = result?.data as unknown as Workspace | undefined;
+
+		return workspace ?? null;
+	} catch (error) {
+		ctx.logger.error("Failed to get workspace %s: %s", id, error);
+		return null;
+	}
+}
+
+/**
+ * Create or change a workspace's settings
+ */
+export async function updateWorkspace(
+	ctx: StoreContext,
+	id: string,
+	update: WorkspaceUpdate,
+): Promise<Workspace> {
+	const now = new Date().toISOString();
+	const workspace: Workspace = (await getWorkspace(ctx, id)) ?? {
+		id,
+		name: id,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	if (update.name !== undefined) workspace.name = update.name;
+	if (update.brand !== undefined) workspace.brand = update.brand;
+	if (update.typefullyApiKey === null) delete workspace.typefullyApiKey;
+	else if (update.typefullyApiKey !== undefined) workspace.typefullyApiKey = update.typefullyApiKey;
+	workspace.updatedAt = now;
+
+	await ctx.kv.set(WORKSPACES_STORE, id, JSON.parse(JSON.stringify(workspace)));
+	ctx.logger.info("Workspace settings saved: %s", id);
+
+	return workspace;
+}
+
+/**
+ * Get the Typefully API key for a workspace, falling back to TYPEFULLY_API_KEY
+ */
+export async function getTypefullyApiKey(
+	ctx: StoreContext,
+	workspaceId: string,
+): Promise<string | undefined> {
+	const workspace = await getWorkspace(ctx, workspaceId);
+	return workspace?.typefullyApiKey || process.env.TYPEFULLY_API_KEY;
+}
+
+/**
+ * Strip the secret settings from a workspace before returning it from the API
+ */
+export function toPublicWorkspace(workspace: Workspace): PublicWorkspace {
+	const { typefullyApiKey, ...rest } = workspace;
+	return { ...rest, hasTypefullyApiKey: Boolean(typefullyApiKey) };
+}